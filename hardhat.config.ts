@@ -1,11 +1,14 @@
 import * as path from "path";
+import { readFileSync } from "fs";
 import { task } from "hardhat/config";
+import { Artifacts } from "hardhat/types";
 import {
   TASK_COMPILE,
   TASK_COMPILE_SOLIDITY_GET_COMPILER_INPUT,
 } from "hardhat/builtin-tasks/task-names";
 import { runTypeChain, glob } from "typechain";
 import "@nomiclabs/hardhat-ethers";
+import { buildInfoStorageLayout, storageLayoutIssues, StorageLayout } from "./src/storage-layout";
 
 // You have to export an object to set up your config
 // This object can have the following optional entries:
@@ -50,6 +53,43 @@ task(TASK_COMPILE_SOLIDITY_GET_COMPILER_INPUT).setAction(async (_, __, runSuper)
   return input;
 });
 
+task("storage-layout", "Prints the storage layout of a contract as JSON")
+  .addPositionalParam("contract", "The contract name")
+  .setAction(async ({ contract }: { contract: string }, { artifacts }) => {
+    const layout = await loadStorageLayout(artifacts, contract);
+    console.log(JSON.stringify(layout, null, 2));
+  });
+
+task("check-storage-layout", "Checks if a contract can be upgraded behind a Proxy")
+  .addPositionalParam("previous", "The contract name or the layout JSON file of the old version")
+  .addPositionalParam("next", "The contract name or the layout JSON file of the new version")
+  .addFlag("noCompile", "Don't compile before running this task")
+  .setAction(async (args: { previous: string; next: string; noCompile: boolean }, runtime) => {
+    if (!args.noCompile) await runtime.run(TASK_COMPILE, { quiet: true });
+    const previous = await loadStorageLayout(runtime.artifacts, args.previous);
+    const next = await loadStorageLayout(runtime.artifacts, args.next);
+    const issues = storageLayoutIssues(previous, next);
+    if (issues.length > 0) {
+      console.error(["Incompatible storage layouts:", ...issues].join("\n  "));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`The storage layout of ${args.next} is compatible with ${args.previous}`);
+  });
+
+// Loads the layout from a JSON file, which may be created with the `storage-layout` task,
+// or from the build info of the contract
+async function loadStorageLayout(artifacts: Artifacts, contract: string): Promise<StorageLayout> {
+  if (contract.endsWith(".json")) {
+    return JSON.parse(readFileSync(contract).toString()) as StorageLayout;
+  }
+  const { sourceName, contractName } = await artifacts.readArtifact(contract);
+  const fullyQualifiedName = `${sourceName}:${contractName}`;
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  if (buildInfo === undefined) throw new Error(`No build info of ${fullyQualifiedName}`);
+  return buildInfoStorageLayout(buildInfo, fullyQualifiedName);
+}
+
 async function typeChain(filesGlob: string, modulePath: string): Promise<void> {
   const outDir = "./contract-bindings";
   const cwd = process.cwd();
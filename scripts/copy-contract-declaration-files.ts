@@ -6,6 +6,8 @@ import fastGlob from "fast-glob";
 // directory so that dependents pick them up properly.
 //
 // See https://github.com/ethereum-ts/TypeChain/issues/430
+//
+// Also copies the address books from `deployments`, so `loadDeployment` finds them in the build.
 
 async function main(): Promise<void> {
   const projectRoot = path.resolve(__dirname, "..");
@@ -15,6 +17,11 @@ async function main(): Promise<void> {
   for (const file of declarationFiles) {
     await fs.copyFile(path.resolve(projectRoot, file), path.resolve(projectRoot, "build", file));
   }
+  const addressBooks = await fastGlob(["deployments/*.json"], { cwd: projectRoot });
+  await fs.mkdir(path.resolve(projectRoot, "build", "deployments"), { recursive: true });
+  for (const file of addressBooks) {
+    await fs.copyFile(path.resolve(projectRoot, file), path.resolve(projectRoot, "build", file));
+  }
 }
 
 main().catch((err) => {
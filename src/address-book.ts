@@ -0,0 +1,243 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import * as path from "path";
+import { providers, utils, BaseContract, BigNumber, Signer } from "ethers";
+import {
+  Claims__factory,
+  ClaimsV2__factory,
+  DaiPool__factory,
+  ENSRegistry__factory,
+  Erc20Pool__factory,
+  EthPool__factory,
+  Governor__factory,
+  Phase0__factory,
+  RadicleToken__factory,
+  Registrar__factory,
+  Timelock__factory,
+  VestingToken__factory,
+} from "../contract-bindings/ethers";
+
+// The directory with the address books of all the networks, one JSON file per network
+export const DEPLOYMENTS_DIR = path.resolve(__dirname, "..", "deployments");
+
+// The factories of all the contracts which can be stored in the address book
+const FACTORIES = {
+  Claims: Claims__factory,
+  ClaimsV2: ClaimsV2__factory,
+  DaiPool: DaiPool__factory,
+  ENSRegistry: ENSRegistry__factory,
+  Erc20Pool: Erc20Pool__factory,
+  EthPool: EthPool__factory,
+  Governor: Governor__factory,
+  Phase0: Phase0__factory,
+  RadicleToken: RadicleToken__factory,
+  Registrar: Registrar__factory,
+  Timelock: Timelock__factory,
+  VestingToken: VestingToken__factory,
+};
+
+export type ContractType = keyof typeof FACTORIES;
+
+export type ContractOf<T extends ContractType> = ReturnType<typeof FACTORIES[T]["connect"]>;
+
+export interface DeploymentRecord {
+  // The human-readable name of the deployment, e.g. `Radicle Token`
+  name: string;
+  contract: ContractType;
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  // The account which sent the deployment transaction or
+  // the contract which created the deployed contract
+  deployer: string;
+  // Undefined for contracts created by other contracts.
+  // The numbers are stored as decimal strings.
+  constructorArgs?: unknown[];
+  // The solc version from the bytecode metadata, undefined if the metadata is missing
+  compiler?: string;
+  // The hash of the deployed runtime bytecode
+  bytecodeHash: string;
+}
+
+export function isContractType(name: string): name is ContractType {
+  return name in FACTORIES;
+}
+
+export function contractInterface(contractType: ContractType): utils.Interface {
+  return FACTORIES[contractType].createInterface();
+}
+
+// The names of all the contracts from the address book, the keys are the addresses
+export function contractNames(network: string, dir = DEPLOYMENTS_DIR): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const { name, contract, address } of readAddressBook(network, dir)) {
+    names.set(address, `${name} (${contract})`);
+  }
+  return names;
+}
+
+// The name of the network under which its address book is stored
+export async function networkName(provider: providers.Provider): Promise<string> {
+  const { name } = await provider.getNetwork();
+  return name == "homestead" ? "mainnet" : name;
+}
+
+export function addressBookPath(network: string, dir = DEPLOYMENTS_DIR): string {
+  return path.join(dir, network + ".json");
+}
+
+// Returns all the deployments on the network, the oldest first
+export function readAddressBook(network: string, dir = DEPLOYMENTS_DIR): DeploymentRecord[] {
+  const bookPath = addressBookPath(network, dir);
+  if (!existsSync(bookPath)) return [];
+  return JSON.parse(readFileSync(bookPath, "utf8")) as DeploymentRecord[];
+}
+
+// A record of an already recorded address replaces the old one,
+// so resumed deployments don't duplicate records.
+export function appendToAddressBook(
+  network: string,
+  record: DeploymentRecord,
+  dir = DEPLOYMENTS_DIR
+): void {
+  const records = readAddressBook(network, dir).filter(({ address }) => address != record.address);
+  records.push(record);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(addressBookPath(network, dir), JSON.stringify(records, null, 2) + "\n");
+}
+
+// Builds the record of a contract deployed with a typechain factory
+export async function deploymentRecord(
+  name: string,
+  contractType: ContractType,
+  contract: BaseContract
+): Promise<DeploymentRecord> {
+  const tx = contract.deployTransaction;
+  if (tx == null) {
+    throw new Error(`The deployment transaction of ${name} under ${contract.address} is unknown`);
+  }
+  const receipt = await tx.wait();
+  return {
+    name,
+    contract: contractType,
+    address: contract.address,
+    txHash: tx.hash,
+    blockNumber: receipt.blockNumber,
+    deployer: tx.from,
+    constructorArgs: decodeConstructorArgs(contractType, tx.data),
+    ...(await bytecodeInfo(contract)),
+  };
+}
+
+// Builds the record of a contract created by another deployed contract
+export async function createdContractRecord(
+  name: string,
+  contractType: ContractType,
+  address: string,
+  creator: DeploymentRecord,
+  provider: providers.Provider
+): Promise<DeploymentRecord> {
+  const contract = FACTORIES[contractType].connect(address, provider);
+  return {
+    name,
+    contract: contractType,
+    address,
+    txHash: creator.txHash,
+    blockNumber: creator.blockNumber,
+    deployer: creator.address,
+    ...(await bytecodeInfo(contract)),
+  };
+}
+
+// All the contracts deployed on a network according to its address book
+export class Deployment {
+  readonly network: string;
+  readonly records: DeploymentRecord[];
+  private readonly signerOrProvider: Signer | providers.Provider;
+
+  constructor(
+    network: string,
+    records: DeploymentRecord[],
+    signerOrProvider: Signer | providers.Provider
+  ) {
+    this.network = network;
+    this.records = records;
+    this.signerOrProvider = signerOrProvider;
+  }
+
+  // Returns the newest deployed contract of the given type,
+  // optionally only the one deployed under the given name.
+  contract<T extends ContractType>(contractType: T, name?: string): ContractOf<T> {
+    const contracts = this.contracts(contractType, name);
+    if (contracts.length == 0) {
+      const named = name === undefined ? "" : ` named '${name}'`;
+      throw new Error(`No ${contractType}${named} deployed on ${this.network}`);
+    }
+    return contracts[contracts.length - 1];
+  }
+
+  // Returns all the deployed contracts of the given type, the oldest first,
+  // optionally only the ones deployed under the given name.
+  contracts<T extends ContractType>(contractType: T, name?: string): ContractOf<T>[] {
+    return this.records
+      .filter((record) => record.contract == contractType)
+      .filter((record) => name === undefined || record.name == name)
+      .map((record) => connect(contractType, record.address, this.signerOrProvider));
+  }
+}
+
+// Loads the address book of the network and connects to all the contracts listed in it
+export function loadDeployment(
+  network: string,
+  signerOrProvider: Signer | providers.Provider,
+  dir = DEPLOYMENTS_DIR
+): Deployment {
+  const records = readAddressBook(network, dir);
+  if (records.length == 0) {
+    throw new Error(`No address book for ${network} found in ${dir}`);
+  }
+  return new Deployment(network, records, signerOrProvider);
+}
+
+function connect<T extends ContractType>(
+  contractType: T,
+  address: string,
+  signerOrProvider: Signer | providers.Provider
+): ContractOf<T> {
+  return FACTORIES[contractType].connect(address, signerOrProvider) as ContractOf<T>;
+}
+
+// The constructor arguments are appended to the bytecode in the deployment transaction
+function decodeConstructorArgs(contractType: ContractType, txData: string): unknown[] | undefined {
+  const factory = FACTORIES[contractType];
+  if (!txData.startsWith(factory.bytecode)) return undefined;
+  const argsData = utils.hexDataSlice(txData, utils.hexDataLength(factory.bytecode));
+  const inputs = factory.createInterface().deploy.inputs;
+  return utils.defaultAbiCoder.decode(inputs, argsData).map(toJson);
+}
+
+function toJson(value: unknown): unknown {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return value.map(toJson);
+  return value;
+}
+
+async function bytecodeInfo(
+  contract: BaseContract
+): Promise<Pick<DeploymentRecord, "compiler" | "bytecodeHash">> {
+  const code = await contract.provider.getCode(contract.address);
+  return { compiler: compilerVersion(code), bytecodeHash: utils.keccak256(code) };
+}
+
+// The solc version is stored in the CBOR-encoded metadata at the end of the bytecode
+// as the `solc` key followed by 3 bytes of the major, minor and patch versions.
+// The last 2 bytes of the bytecode are the length of the metadata.
+function compilerVersion(code: string): string | undefined {
+  const solcKey = utils.hexlify(utils.toUtf8Bytes("solc")).slice(2);
+  // The CBOR byte string header of a 3 bytes long value
+  const versionHeader = "43";
+  const idx = code.lastIndexOf(solcKey + versionHeader);
+  if (idx < 0) return undefined;
+  const versionStart = idx + solcKey.length + versionHeader.length;
+  const version = utils.arrayify("0x" + code.slice(versionStart, versionStart + 6));
+  return version.join(".");
+}
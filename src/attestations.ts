@@ -0,0 +1,130 @@
+import { createPrivateKey, createPublicKey, sign, verify, KeyObject } from "crypto";
+import { utils, BigNumber, BytesLike, ContractReceipt, Overrides } from "ethers";
+import { AttestationRegistry } from "../contract-bindings/ethers/AttestationRegistry";
+import { submitOk } from "./deploy";
+
+// The signature as accepted by `AttestationRegistry.attest`, one byte per element
+export type AttestationSignature = Parameters<AttestationRegistry["attest"]>[3];
+
+// An attestation of the Radicle identity revision by an Ethereum address
+export interface Attestation {
+  id: string;
+  revision: string;
+  // The raw ed25519 public key
+  publicKey: string;
+  // The raw ed25519 signature of `attestationMessage`
+  signature: string;
+}
+
+const MESSAGE_PREFIX = "radicle-attestation:";
+
+// The DER encoding prefixes of the raw ed25519 keys
+const PRIVATE_KEY_PREFIX = "0x302e020100300506032b657004220420";
+const PUBLIC_KEY_PREFIX = "0x302a300506032b6570032100";
+
+// The message signed by the identity key, which binds the Ethereum address to the identity.
+// It's `radicle-attestation:` in UTF-8 followed by the 20 bytes of the address
+// and the 32 bytes of the ID and of the revision each.
+export function attestationMessage(addr: string, id: BytesLike, revision: BytesLike): Uint8Array {
+  return utils.arrayify(
+    utils.solidityPack(
+      ["string", "address", "bytes32", "bytes32"],
+      [MESSAGE_PREFIX, addr, id, revision]
+    )
+  );
+}
+
+// Signs the attestation for the address with the ed25519 key,
+// which can be a key object or a raw 32 bytes private key
+export function signAttestation(
+  addr: string,
+  id: BytesLike,
+  revision: BytesLike,
+  privateKey: KeyObject | BytesLike
+): Attestation {
+  const key = privateKey instanceof KeyObject ? privateKey : ed25519PrivateKey(privateKey);
+  if (key.asymmetricKeyType != "ed25519") throw new Error("The attestation key must be ed25519");
+  const publicKeyDer = createPublicKey(key).export({ format: "der", type: "spki" });
+  const signature = sign(null, attestationMessage(addr, id, revision), key);
+  return {
+    id: utils.hexlify(id),
+    revision: utils.hexlify(revision),
+    publicKey: utils.hexDataSlice(publicKeyDer, utils.hexDataLength(PUBLIC_KEY_PREFIX)),
+    signature: utils.hexlify(signature),
+  };
+}
+
+// Checks if the attestation has been signed for the address by its public key
+export function verifyAttestation(addr: string, attestation: Attestation): boolean {
+  const { id, revision, publicKey, signature } = attestation;
+  if (utils.hexDataLength(publicKey) != 32 || utils.hexDataLength(signature) != 64) return false;
+  const key = createPublicKey({
+    key: Buffer.from(utils.arrayify(utils.hexConcat([PUBLIC_KEY_PREFIX, publicKey]))),
+    format: "der",
+    type: "spki",
+  });
+  const message = attestationMessage(addr, id, revision);
+  return verify(null, message, key, utils.arrayify(signature));
+}
+
+// Splits the signature into the 64 bytes accepted by `AttestationRegistry.attest`
+export function packSignature(signature: BytesLike): AttestationSignature {
+  const bytes = utils.arrayify(signature);
+  if (bytes.length != 64) throw new Error("The signature must be 64 bytes long");
+  const packed: BytesLike[] = Array.from(bytes, (byte) => [byte]);
+  return packed as AttestationSignature;
+}
+
+// Stores the attestation of the sender, it replaces the previous one
+export async function attest(
+  registry: AttestationRegistry,
+  attestation: Attestation,
+  overrides: Overrides = {}
+): Promise<ContractReceipt> {
+  const { id, revision, publicKey, signature } = attestation;
+  const packed = packSignature(signature);
+  return submitOk(registry.attest(id, revision, publicKey, packed, overrides), registry.provider);
+}
+
+// Reads the attestation of the address, undefined if there's none.
+// The public `attestations` getter doesn't return the signature, so it's read from the storage.
+export async function readAttestation(
+  registry: AttestationRegistry,
+  addr: string
+): Promise<Attestation | undefined> {
+  const { id, revision, publicKey } = await registry.attestations(addr);
+  if (utils.stripZeros(publicKey).length == 0) return undefined;
+  // `attestations` is the first storage variable, the fields of the struct follow each other
+  // and the signature bytes are packed in 2 slots starting from the lowest-order byte
+  const structSlot = utils.keccak256(
+    utils.defaultAbiCoder.encode(["address", "uint256"], [addr, 0])
+  );
+  const slots = [3, 4].map((field) =>
+    registry.provider.getStorageAt(registry.address, BigNumber.from(structSlot).add(field))
+  );
+  const signatureBytes = (await Promise.all(slots)).map((slot) =>
+    utils.arrayify(utils.hexZeroPad(slot, 32)).reverse()
+  );
+  return { id, revision, publicKey, signature: utils.hexConcat(signatureBytes) };
+}
+
+// Checks if the address has an attestation signed for it by the stored public key.
+// Returns false if there's no attestation.
+export async function verifyStoredAttestation(
+  registry: AttestationRegistry,
+  addr: string
+): Promise<boolean> {
+  const attestation = await readAttestation(registry, addr);
+  return attestation !== undefined && verifyAttestation(addr, attestation);
+}
+
+function ed25519PrivateKey(privateKey: BytesLike): KeyObject {
+  if (utils.hexDataLength(utils.hexlify(privateKey)) != 32) {
+    throw new Error("The attestation private key must be 32 bytes long");
+  }
+  return createPrivateKey({
+    key: Buffer.from(utils.arrayify(utils.hexConcat([PRIVATE_KEY_PREFIX, privateKey]))),
+    format: "der",
+    type: "pkcs8",
+  });
+}
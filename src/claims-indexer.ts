@@ -0,0 +1,178 @@
+import { providers, utils, BigNumber, Event } from "ethers";
+import { Claims } from "../contract-bindings/ethers/Claims";
+import { ClaimsV2 } from "../contract-bindings/ethers/ClaimsV2";
+import { Claims__factory, ClaimsV2__factory } from "../contract-bindings/ethers";
+import { decodeClaimPayload, parseClaim, ClaimFormat } from "./claims";
+
+// A valid Radicle identity claim
+export interface IdentityClaim {
+  addr: string;
+  format: ClaimFormat;
+  // The identity root hash as a lowercase hex string with leading `0x`
+  root: string;
+  // The Radicle Link URN of the identity
+  urn: string;
+  // The address of the claims contract
+  contract: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+// The claims contracts to index, at least one of them must be set
+export interface ClaimsContracts {
+  claims?: string;
+  claimsV2?: string;
+}
+
+export interface ClaimsIndexerOptions {
+  // The maximum number of blocks queried for events at once
+  blockRange?: number;
+  // The number of the newest blocks not indexed, because they may be reorged
+  confirmations?: number;
+}
+
+// A claim event with the claiming address and the claim payload
+// or undefined if the payload can't be recovered
+type ClaimEvent = [Event, string, BigNumber | undefined, string | undefined];
+
+// Rebuilds the current Radicle identity claims of the addresses by replaying the claims events.
+// The `Claims` contract events don't contain the payloads, so they're recovered from the inputs
+// of the transactions calling the contract. If the contract has been called indirectly,
+// the payload can't be recovered and the claim is treated as malformed.
+// As documented in the contracts, the latest claim of an address wins and a claim with
+// an unsupported format or a malformed payload revokes the previous one, see `parseClaim`.
+// Reorgs aren't handled, they should be avoided by requiring confirmations.
+export class ClaimsIndexer {
+  readonly claims?: Claims;
+  readonly claimsV2?: ClaimsV2;
+  private readonly provider: providers.Provider;
+  private readonly blockRange: number;
+  private readonly confirmations: number;
+  private blockNumber: number;
+  private readonly current = new Map<string, IdentityClaim>();
+
+  constructor(
+    provider: providers.Provider,
+    contracts: ClaimsContracts,
+    startBlock: number,
+    options: ClaimsIndexerOptions = {}
+  ) {
+    if (contracts.claims === undefined && contracts.claimsV2 === undefined) {
+      throw new Error("No claims contract to index");
+    }
+    if (contracts.claims !== undefined) {
+      this.claims = Claims__factory.connect(contracts.claims, provider);
+    }
+    if (contracts.claimsV2 !== undefined) {
+      this.claimsV2 = ClaimsV2__factory.connect(contracts.claimsV2, provider);
+    }
+    this.provider = provider;
+    this.blockRange = options.blockRange ?? 1000;
+    this.confirmations = options.confirmations ?? 0;
+    this.blockNumber = startBlock - 1;
+  }
+
+  // Indexes all the events up to the given block or the latest confirmed one.
+  // Returns the number of the last indexed block.
+  async sync(toBlock?: number): Promise<number> {
+    const latestBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+    const targetBlock = Math.min(toBlock ?? latestBlock, latestBlock);
+    while (this.blockNumber < targetBlock) {
+      const fromBlock = this.blockNumber + 1;
+      const chunkEnd = Math.min(fromBlock + this.blockRange - 1, targetBlock);
+      for (const [event, addr, format, payload] of await this.queryEvents(fromBlock, chunkEnd)) {
+        this.applyClaim(event, addr, format, payload);
+      }
+      this.blockNumber = chunkEnd;
+    }
+    return this.blockNumber;
+  }
+
+  lastIndexedBlock(): number {
+    return this.blockNumber;
+  }
+
+  // The current claim of the address, undefined if it has never claimed or it has revoked
+  claim(addr: string): IdentityClaim | undefined {
+    return this.current.get(utils.getAddress(addr));
+  }
+
+  // All the current claims
+  allClaims(): IdentityClaim[] {
+    return Array.from(this.current.values());
+  }
+
+  // The addresses currently claiming the identity with the given root hash
+  claimants(root: string): string[] {
+    const normalized = utils.hexlify(root).toLowerCase();
+    return this.allClaims()
+      .filter((claim) => claim.root == normalized)
+      .map((claim) => claim.addr);
+  }
+
+  private applyClaim(event: Event, claimant: string, format?: BigNumber, payload?: string): void {
+    const addr = utils.getAddress(claimant);
+    const parsed = format && payload ? parseClaim(format, payload) : undefined;
+    if (parsed === undefined) {
+      this.current.delete(addr);
+      return;
+    }
+    this.current.set(addr, {
+      addr,
+      format: parsed.format,
+      root: parsed.payload,
+      urn: decodeClaimPayload(parsed),
+      contract: event.address,
+      blockNumber: event.blockNumber,
+      txHash: event.transactionHash,
+    });
+  }
+
+  // Returns the events of both contracts sorted in the order of emission
+  private async queryEvents(fromBlock: number, toBlock: number): Promise<ClaimEvent[]> {
+    const events: ClaimEvent[] = [];
+    if (this.claims !== undefined) {
+      const claims = this.claims;
+      const claimEvents = await claims.queryFilter(
+        claims.filters.Claimed(null),
+        fromBlock,
+        toBlock
+      );
+      for (const event of claimEvents) {
+        events.push([event, event.args.addr, ...(await this.recoverPayload(claims, event))]);
+      }
+    }
+    if (this.claimsV2 !== undefined) {
+      const claimsV2 = this.claimsV2;
+      const filter = claimsV2.filters.Claimed(null, null, null);
+      for (const event of await claimsV2.queryFilter(filter, fromBlock, toBlock)) {
+        events.push([event, event.args.addr, event.args.format, event.args.payload]);
+      }
+    }
+    return events.sort(([a], [b]) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  // Decodes the claim arguments from the input of the transaction which has emitted the event
+  private async recoverPayload(
+    claims: Claims,
+    event: Event
+  ): Promise<[BigNumber | undefined, string | undefined]> {
+    const tx = await this.provider.getTransaction(event.transactionHash);
+    // A contract creation has no `to`, the claim has been made by the contract constructor
+    if (tx.to == null || utils.getAddress(tx.to) != utils.getAddress(claims.address)) {
+      return [undefined, undefined];
+    }
+    let args: utils.Result;
+    try {
+      args = claims.interface.decodeFunctionData("claim", tx.data);
+    } catch (e) {
+      return [undefined, undefined];
+    }
+    const format: unknown = args.format;
+    const payload: unknown = args.payload;
+    if (!BigNumber.isBigNumber(format) || typeof payload != "string") {
+      return [undefined, undefined];
+    }
+    return [format, payload];
+  }
+}
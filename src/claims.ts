@@ -0,0 +1,140 @@
+import { constants, utils, BigNumber, BigNumberish, ContractReceipt, Overrides } from "ethers";
+import { ClaimsV2 } from "../contract-bindings/ethers/ClaimsV2";
+import { submitOk } from "./deploy";
+
+// The claim payload formats supported by the claims contracts
+export enum ClaimFormat {
+  // An SHA-1 Radicle identity root hash
+  Sha1 = 1,
+  // An SHA-256 Radicle identity root hash
+  Sha256 = 2,
+}
+
+// The arguments of `claim` of the claims contracts
+export interface ClaimPayload {
+  format: ClaimFormat;
+  // The identity root hash as a lowercase hex string with leading `0x`
+  payload: string;
+}
+
+// The multihash codes of the identity root hashes and their lengths
+const MULTIHASHES: Record<ClaimFormat, { code: number; length: number }> = {
+  [ClaimFormat.Sha1]: { code: 0x11, length: 20 },
+  [ClaimFormat.Sha256]: { code: 0x12, length: 32 },
+};
+
+const URN_PREFIX = "rad:git:";
+// The multibase prefix of z-base-32
+const MULTIBASE_PREFIX = "h";
+const ZBASE32_ALPHABET = "ybndrfg8ejkmcpqxot1uwisza345h769";
+
+// The payload of a claim, which revokes the previous one, because it doesn't match any identity
+export const REVOKE_CLAIM_PAYLOAD: ClaimPayload = {
+  format: ClaimFormat.Sha256,
+  payload: constants.HashZero,
+};
+
+// Encodes a Radicle Link URN, e.g. `rad:git:hnrkyghsrokxzxpy9pww69xr11dr9q7edbxfo`
+// into a claim payload. The URN must be the multibase z-base-32 encoded multihash of the
+// identity root, SHA-1 or SHA-256, without any path. Throws if the URN is invalid.
+export function encodeClaimPayload(urn: string): ClaimPayload {
+  const invalid = (reason: string): Error => new Error(`Invalid Radicle URN '${urn}': ${reason}`);
+  if (!urn.startsWith(URN_PREFIX + MULTIBASE_PREFIX)) {
+    throw invalid(`it must start with '${URN_PREFIX}${MULTIBASE_PREFIX}'`);
+  }
+  const multihash = decodeZBase32(urn.slice(URN_PREFIX.length + MULTIBASE_PREFIX.length));
+  if (multihash === undefined) throw invalid("it isn't valid z-base-32");
+  const [code, length] = multihash;
+  const format = [ClaimFormat.Sha1, ClaimFormat.Sha256].find(
+    (claimFormat) => MULTIHASHES[claimFormat].code == code
+  );
+  if (format === undefined) throw invalid("it must be an SHA-1 or an SHA-256 multihash");
+  const expectedLength = MULTIHASHES[format].length;
+  if (length != expectedLength || multihash.length != expectedLength + 2) {
+    throw invalid(`the hash must be ${expectedLength} bytes long`);
+  }
+  const payload = utils.hexlify(multihash.slice(2));
+  if (BigNumber.from(payload).isZero()) throw invalid("the hash is zero");
+  return { format, payload };
+}
+
+// Decodes a claim payload into a Radicle Link URN. Throws if the payload is malformed.
+export function decodeClaimPayload({ format, payload }: ClaimPayload): string {
+  const multihash = MULTIHASHES[format];
+  if (multihash === undefined) throw new Error(`Unsupported claim format ${String(format)}`);
+  if (!utils.isHexString(payload, multihash.length)) {
+    throw new Error(`Claim payload of format ${format} must be ${multihash.length} bytes long`);
+  }
+  const bytes = utils.concat([[multihash.code, multihash.length], payload]);
+  return URN_PREFIX + MULTIBASE_PREFIX + encodeZBase32(bytes);
+}
+
+// Parses the arguments of a claim the way the claims contracts document it.
+// Returns undefined if the claim only revokes the previous one, because the format
+// is unsupported, the payload is malformed or it's a zero hash, which matches no identity.
+export function parseClaim(format: BigNumberish, payload: string): ClaimPayload | undefined {
+  const claimFormat = [ClaimFormat.Sha1, ClaimFormat.Sha256].find((supported) =>
+    BigNumber.from(format).eq(supported)
+  );
+  if (claimFormat === undefined) return undefined;
+  const { length } = MULTIHASHES[claimFormat];
+  if (!utils.isHexString(payload, length) || BigNumber.from(payload).isZero()) return undefined;
+  return { format: claimFormat, payload: payload.toLowerCase() };
+}
+
+// Claims the Radicle identity for the sender, it replaces the sender's previous claim
+export async function claimIdentity(
+  claims: ClaimsV2,
+  urn: string,
+  overrides: Overrides = {}
+): Promise<ContractReceipt> {
+  const { format, payload } = encodeClaimPayload(urn);
+  return submitOk(claims.claim(format, payload, overrides), claims.provider);
+}
+
+// Revokes the sender's claim without creating a new one
+export async function revokeClaim(
+  claims: ClaimsV2,
+  overrides: Overrides = {}
+): Promise<ContractReceipt> {
+  const { format, payload } = REVOKE_CLAIM_PAYLOAD;
+  return submitOk(claims.claim(format, payload, overrides), claims.provider);
+}
+
+function encodeZBase32(bytes: Uint8Array): string {
+  let encoded = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      encoded += ZBASE32_ALPHABET[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) encoded += ZBASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return encoded;
+}
+
+// Returns undefined if the input isn't a canonical z-base-32 encoding
+function decodeZBase32(encoded: string): Uint8Array | undefined {
+  const bytes = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of encoded) {
+    const value = ZBASE32_ALPHABET.indexOf(char);
+    if (value < 0) return undefined;
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 255);
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  // The padding must be shorter than a character and contain only zeros
+  if (bits >= 5 || buffer != 0) return undefined;
+  return Uint8Array.from(bytes);
+}
@@ -8,31 +8,218 @@ import {
   deployVestingToken,
   deployPhase0,
 } from "./deploy";
-import { BigNumber, Contract, Wallet, Signer, providers, utils } from "ethers";
+import {
+  appendToAddressBook,
+  contractNames,
+  createdContractRecord,
+  deploymentRecord,
+  networkName,
+  ContractType,
+  DeploymentRecord,
+  DEPLOYMENTS_DIR,
+  readAddressBook,
+} from "./address-book";
+import { DeploymentSteps } from "./deployment-steps";
+import {
+  exportPhase0,
+  exportTransferEthDomain,
+  exportVestingBatch,
+  exportVestingToken,
+  readSafeNonce,
+  SafeBatch,
+} from "./safe-batch";
+import { connectNetwork, findNetworkProfile, networkProfile, NETWORK_PROFILES } from "./networks";
+import { formatDryRunReport, DryRun } from "./dry-run";
+import { errorMessage } from "./errors";
+import { formatFees, isLegacy, maxGasPrice, suggestFees, useFees, Fees } from "./fees";
+import {
+  formatActions,
+  formatTime,
+  readProposalFile,
+  GovernanceClient,
+  ProposalState,
+} from "./governance";
+import {
+  deployVestingBatch,
+  parseVestingCsv,
+  totalVestingAmount,
+  vestingReportCsv,
+} from "./vesting-batch";
+import {
+  loadManifest,
+  parseAddress,
+  parseBigNumber,
+  parseChainId,
+  parseDays,
+  parseGasPrice,
+  parseHdPath,
+  parseMnemonic,
+  parseNetwork,
+  parseNumber,
+  parseSigningKey,
+  parseTimestamp,
+  parseUrl,
+  Manifest,
+  Parser,
+  ADDRESS,
+  BIG_NUMBER,
+  DAYS_IN_SECONDS,
+  NUMBER,
+  TEXT,
+  TIMESTAMP,
+} from "./deployment-manifest";
+import {
+  decryptKeystore,
+  describeSignerSource,
+  keystoreAddress,
+  mnemonicAddresses,
+  mnemonicSigningKey,
+  DeploymentSigner,
+  ExternalSigner,
+  SafeSigner,
+  SignerSource,
+  DEFAULT_HD_PATH,
+} from "./signers";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import * as path from "path";
+import { BigNumber, Contract, Wallet, providers, utils } from "ethers";
 import SigningKey = utils.SigningKey;
 import { keyInSelect, keyInYNStrict, question } from "readline-sync";
-import { ERC20__factory } from "../contract-bindings/ethers";
+import {
+  Claims__factory,
+  ClaimsV2__factory,
+  DaiPool__factory,
+  ENS__factory,
+  ERC20__factory,
+  Erc20Pool__factory,
+  EthPool__factory,
+  Governor__factory,
+  VestingToken__factory,
+} from "../contract-bindings/ethers";
+
+// Set during a dry run, see `dryRun`
+let rehearsal: { dryRun: DryRun; fees?: Fees } | undefined;
+
+// Set in the export mode, see `exportSafeBatch`, the rest is set when the Safe is connected
+let exporting:
+  | { safe?: SafeSigner; batch?: SafeBatch; name?: string; file?: string; multiSend?: string }
+  | undefined;
 
-const INFURA_ID = "de5e2a8780c04964950e73b696d1bfb1";
+// Rehearses the deployment, e.g. `dryRun(phase0)`, on an in-process Hardhat network.
+// The signer gets the nonce and the balance it has on the real network, so the deployed
+// contracts get the same addresses as they would on the real network.
+// The ENS and the ERC-20 token are replaced with stand-ins.
+// Nothing is sent to the real network and nothing is saved in the address book.
+// Prints all the transactions which would be sent and their total cost.
+export async function dryRun(deployment: () => Promise<void>): Promise<void> {
+  const { network } = await import("hardhat");
+  const provider = new providers.Web3Provider({
+    request: (request): Promise<unknown> => network.provider.request(request),
+  });
+  rehearsal = { dryRun: new DryRun(provider, provider.getSigner(0)) };
+  try {
+    await deployment();
+    const { dryRun, fees } = rehearsal;
+    if (fees !== undefined) {
+      console.log(formatDryRunReport(await dryRun.report(maxGasPrice(fees))));
+      if (!isLegacy(fees)) console.log("The total cost is the upper bound at the max fee per gas");
+    }
+  } finally {
+    rehearsal = undefined;
+  }
+}
+
+// Builds the transactions of the deployment, e.g. `exportSafeBatch(phase0)`, without signing them
+// and writes them into a file to be reviewed and executed by a Safe.
+// The contract creations are exported as a single Safe transaction delegating to `MultiSend`,
+// which the owners sign and execute with `execTransaction`. The batches without any creations
+// are exported in the Transaction Builder format.
+// The Safe is the deployer, so it must hold the tokens and the ENS domain used by the deployment.
+// The addresses of the contracts are predicted, nothing is saved in the address book.
+export async function exportSafeBatch(deployment: () => Promise<void>): Promise<void> {
+  exporting = {};
+  try {
+    await deployment();
+    const { safe, batch, name, file, multiSend } = exporting;
+    if (safe === undefined || batch === undefined || name === undefined || file === undefined) {
+      return;
+    }
+    console.log(batch.descriptions.map((description) => "  " + description).join("\n"));
+    if (batch.hasDelegateCalls()) {
+      const safeNonce = await readSafeNonce(safe.provider, batch.safe);
+      const safeTx = batch.toSafeTransaction(safeNonce, multiSend);
+      writeFileSync(file, JSON.stringify(safeTx, null, 2) + "\n");
+      console.log(
+        "Exported",
+        batch.transactions.length,
+        "transactions as a Safe transaction to",
+        file
+      );
+      console.log("The owners must sign the Safe transaction hash", safeTx.safeTxHash);
+    } else {
+      writeFileSync(file, JSON.stringify(batch.toFile(name), null, 2) + "\n");
+      console.log("Exported", batch.transactions.length, "transactions to", file);
+    }
+  } finally {
+    exporting = undefined;
+  }
+}
 
 export async function testEns(): Promise<void> {
+  const manifest = loadManifest("testEns", { label: TEXT });
+  if (exporting !== undefined) throw new Error("The test ENS can't be exported as a Safe batch");
+  const params = manifest.params;
   console.log("The deployer will become an owner of the '', 'eth' and '<domain>.eth' domains,");
   console.log("the owner of the root ENS and the owner and controller of the 'eth' registrar");
-  const signer = await connectPrivateKeySigner();
-  const label = askFor("an 'eth' subdomain to register");
-  await deploy("ENS", () => deployTestEns(signer, label));
+  const signer = await connectSigner(manifest);
+  const label = params.get("label", TEXT) ?? askFor("an 'eth' subdomain to register");
+  const steps = await resumableSteps(signer, "testEns");
+  await deploy(manifest, "ENS", "ENSRegistry", () => deployTestEns(signer, label, steps));
+  steps.finish();
 }
 
 export async function phase0(): Promise<void> {
-  const signer = await connectPrivateKeySigner();
-  const governorGuardian = askForAddress("of the governor guardian");
-  const monadicAddr = askForAddress("of Monadic");
-  const foundationAddr = askForAddress("of the Foundation");
-  const ensAddr = askForAddress("of the ENS");
-  const ethLabel = askFor("an 'eth' subdomain on which the registrar should operate");
+  const manifest = loadManifest("phase0", {
+    governorGuardian: ADDRESS,
+    monadic: ADDRESS,
+    foundation: ADDRESS,
+    ens: ADDRESS,
+    ethLabel: TEXT,
+  });
+  const params = manifest.params;
+  const signer = await connectSigner(manifest);
+  const governorGuardian =
+    params.get("governorGuardian", ADDRESS) ?? askForAddress("of the governor guardian");
+  const monadicAddr = params.get("monadic", ADDRESS) ?? askForAddress("of Monadic");
+  const foundationAddr = params.get("foundation", ADDRESS) ?? askForAddress("of the Foundation");
+  const ethLabel =
+    params.get("ethLabel", TEXT) ??
+    askFor("an 'eth' subdomain on which the registrar should operate");
+  const ensAddr = await ensOrStandIn(
+    params.get("ens", ADDRESS) ?? askForAddress("of the ENS"),
+    signer,
+    ethLabel
+  );
   const timelockDelay = 60 * 60 * 24 * 2;
 
-  const phase0 = await deploy("phase0", () =>
+  const batch = exporting?.batch;
+  if (batch !== undefined) {
+    const args = [monadicAddr, foundationAddr, timelockDelay, governorGuardian] as const;
+    const addresses = exportPhase0(batch, ...args, ensAddr, ethLabel);
+    printExported("phase0", addresses.phase0);
+    printExported("Radicle Token", addresses.token);
+    printExported("Timelock", addresses.timelock);
+    printExported("Governor", addresses.governor);
+    printExported("Registrar", addresses.registrar);
+    const ens = ENS__factory.connect(ensAddr, signer);
+    if ((await ens.owner(utils.namehash(ethLabel + ".eth"))) == batch.safe) {
+      await exportTransferEthDomain(batch, signer.provider, ensAddr, ethLabel, addresses.registrar);
+    } else {
+      console.log(`Remember to give the '${ethLabel}.eth' domain to the registrar`);
+    }
+    return;
+  }
+  const [phase0, phase0Record] = await deploy(manifest, "phase0", "Phase0", () =>
     deployPhase0(
       signer,
       monadicAddr,
@@ -44,28 +231,70 @@ export async function phase0(): Promise<void> {
     )
   );
 
-  printDeployed("Radicle Token", await phase0.token());
-  printDeployed("Timelock", await phase0.timelock());
-  printDeployed("Governor", await phase0.governor());
-  printDeployed("Registrar", await phase0.registrar());
+  const created: [string, ContractType, string][] = [
+    ["Radicle Token", "RadicleToken", await phase0.token()],
+    ["Timelock", "Timelock", await phase0.timelock()],
+    ["Governor", "Governor", await phase0.governor()],
+    ["Registrar", "Registrar", await phase0.registrar()],
+  ];
+  for (const [name, contractType, address] of created) {
+    printDeployed(name, address);
+    const record = await createdContractRecord(
+      name,
+      contractType,
+      address,
+      phase0Record,
+      phase0.provider
+    );
+    await recordDeployment(phase0.provider, record);
+  }
   console.log(`Remember to give the '${ethLabel}.eth' domain to the registrar`);
 }
 
 export async function vestingTokens(): Promise<void> {
+  const manifest = loadManifest("vestingTokens", {
+    token: ADDRESS,
+    owner: ADDRESS,
+    vestingPeriodDays: DAYS_IN_SECONDS,
+    cliffPeriodDays: DAYS_IN_SECONDS,
+    vestings: [{ beneficiary: ADDRESS, amount: BIG_NUMBER, startDate: TIMESTAMP }],
+  });
+  const params = manifest.params;
   console.log("The deployer will be the one providing tokens for vesting");
-  const signer = await connectPrivateKeySigner();
-  const tokenAddr = askForAddress("of the Radicle token contract");
+  const signer = await connectSigner(manifest);
+  const tokenAddr = await tokenOrStandIn(
+    params.get("token", ADDRESS) ?? askForAddress("of the Radicle token contract"),
+    signer
+  );
   const token = ERC20__factory.connect(tokenAddr, signer);
   const decimals = await token.decimals();
   const symbol = await token.symbol();
-  const owner = askForAddress("of the vesting contracts admin");
-  const vestingPeriod = askForDaysInSeconds("the vesting period");
-  const cliffPeriod = askForDaysInSeconds("the cliff period");
+  const owner = params.get("owner", ADDRESS) ?? askForAddress("of the vesting contracts admin");
+  const vestingPeriod =
+    params.get("vestingPeriodDays", DAYS_IN_SECONDS) ?? askForDaysInSeconds("the vesting period");
+  const cliffPeriod =
+    params.get("cliffPeriodDays", DAYS_IN_SECONDS) ?? askForDaysInSeconds("the cliff period");
+  const vestings = params.list("vestings");
+  const steps = await resumableSteps(signer, "vestingTokens");
+  let idx = 0;
   do {
-    const beneficiary = askForAddress("of beneficiary");
-    const amount = askForAmount("to vest", decimals, symbol);
-    const vestingStartTime = askForTimestamp("of the vesting start");
-    await deploy("vesting tokens", () =>
+    const vesting = vestings[idx++];
+    const beneficiary = vesting?.get("beneficiary", ADDRESS) ?? askForAddress("of beneficiary");
+    const amountParam = vesting?.get("amount", BIG_NUMBER);
+    const amount =
+      amountParam === undefined
+        ? askForAmount("to vest", decimals, symbol)
+        : toAmount(amountParam, decimals);
+    const vestingStartTime =
+      vesting?.get("startDate", TIMESTAMP) ?? askForTimestamp("of the vesting start");
+    const batch = exporting?.batch;
+    if (batch !== undefined) {
+      const vestingArgs = [amount, vestingStartTime, vestingPeriod, cliffPeriod] as const;
+      const vestingAddr = exportVestingToken(batch, tokenAddr, owner, beneficiary, ...vestingArgs);
+      printExported("vesting tokens", vestingAddr);
+      continue;
+    }
+    await deploy(manifest, "vesting tokens", "VestingToken", () =>
       deployVestingToken(
         signer,
         tokenAddr,
@@ -74,56 +303,272 @@ export async function vestingTokens(): Promise<void> {
         amount,
         vestingStartTime,
         vestingPeriod,
-        cliffPeriod
+        cliffPeriod,
+        steps.scoped(`vesting ${idx} for ${beneficiary}`)
       )
     );
     console.log(beneficiary, "has", amount.toString(), "tokens vesting");
-  } while (askYesNo("Create another vesting?"));
+  } while (manifest.isFromFile ? idx < vestings.length : askYesNo("Create another vesting?"));
+  steps.finish();
+}
+
+export async function vestingTokensBatch(): Promise<void> {
+  const manifest = loadManifest("vestingTokensBatch", {
+    token: ADDRESS,
+    owner: ADDRESS,
+    vestingPeriodDays: DAYS_IN_SECONDS,
+    cliffPeriodDays: DAYS_IN_SECONDS,
+    csvFile: TEXT,
+    reportFile: TEXT,
+  });
+  const params = manifest.params;
+  console.log("The deployer will be the one providing tokens for vesting");
+  const signer = await connectSigner(manifest);
+  const tokenAddr = await tokenOrStandIn(
+    params.get("token", ADDRESS) ?? askForAddress("of the Radicle token contract"),
+    signer
+  );
+  const token = ERC20__factory.connect(tokenAddr, signer);
+  const decimals = await token.decimals();
+  const symbol = await token.symbol();
+  const csvFile = params.get("csvFile", TEXT) ?? askFor("the path of the vestings CSV file");
+  const rows = parseVestingCsv(readFileSync(csvFile, "utf8"), decimals, Date.now() / 1000);
+  const total = utils.formatUnits(totalVestingAmount(rows), decimals);
+  console.log("Found", rows.length, "vestings of", total, symbol, "in total");
+  const owner = params.get("owner", ADDRESS) ?? askForAddress("of the vesting contracts admin");
+  const vestingPeriod =
+    params.get("vestingPeriodDays", DAYS_IN_SECONDS) ??
+    askForDaysInSeconds("the default vesting period");
+  const cliffPeriod =
+    params.get("cliffPeriodDays", DAYS_IN_SECONDS) ??
+    askForDaysInSeconds("the default cliff period");
+  const reportFile =
+    params.get("reportFile", TEXT) ?? csvFile.replace(/\.csv$/, "") + "-report.csv";
+
+  const batch = exporting?.batch;
+  if (batch !== undefined) {
+    const exported = await exportVestingBatch(
+      batch,
+      signer.provider,
+      tokenAddr,
+      owner,
+      cliffPeriod,
+      vestingPeriod,
+      rows
+    );
+    const report = exported.map(({ vesting, ...row }) => ({
+      ...row,
+      vesting: VestingToken__factory.connect(vesting, signer),
+    }));
+    writeFileSync(reportFile, vestingReportCsv(report, decimals));
+    console.log(
+      "Exported",
+      report.length,
+      "vesting contracts, the predicted addresses are in",
+      reportFile
+    );
+    return;
+  }
+
+  const steps = await resumableSteps(signer, "vestingTokensBatch");
+  let report;
+  try {
+    report = await deployVestingBatch(
+      signer,
+      tokenAddr,
+      owner,
+      cliffPeriod,
+      vestingPeriod,
+      rows,
+      steps
+    );
+  } catch (e) {
+    console.log(errorMessage(e));
+    throw "Deployment failed, rerun it to resume";
+  }
+  for (const { vesting } of report) {
+    await recordDeployment(
+      signer.provider,
+      await deploymentRecord("vesting tokens", "VestingToken", vesting)
+    );
+  }
+  if (rehearsal === undefined) {
+    writeFileSync(reportFile, vestingReportCsv(report, decimals));
+    console.log("Deployed", report.length, "vesting contracts, the report is in", reportFile);
+  } else {
+    console.log(vestingReportCsv(report, decimals));
+  }
+  steps.finish();
 }
 
 export async function ethFundingPool(): Promise<void> {
-  const signer = await connectPrivateKeySigner();
-  const cycleSecs = askForNumber("the length of the funding cycle in seconds");
-  await deploy("funding pool", () => deployEthPool(signer, cycleSecs));
+  const manifest = loadManifest("ethFundingPool", { cycleSecs: NUMBER });
+  const signer = await connectSigner(manifest);
+  const cycleSecs = manifest.params.get("cycleSecs", NUMBER) ?? askForCycleSecs();
+  await deployOrExport(
+    manifest,
+    "funding pool",
+    "EthPool",
+    () => deployEthPool(signer, cycleSecs),
+    () => new EthPool__factory().getDeployTransaction(cycleSecs)
+  );
 }
 
 export async function erc20FundingPool(): Promise<void> {
-  const signer = await connectPrivateKeySigner();
-  const tokenAddr = askForAddress("of the ERC-20 token to used in the funding pool");
-  const cycleSecs = askForNumber("the length of the funding cycle in seconds");
-  await deploy("funding pool", () => deployErc20Pool(signer, cycleSecs, tokenAddr));
+  const manifest = loadManifest("erc20FundingPool", { token: ADDRESS, cycleSecs: NUMBER });
+  const params = manifest.params;
+  const signer = await connectSigner(manifest);
+  const tokenAddr =
+    params.get("token", ADDRESS) ??
+    askForAddress("of the ERC-20 token to used in the funding pool");
+  const cycleSecs = params.get("cycleSecs", NUMBER) ?? askForCycleSecs();
+  await deployOrExport(
+    manifest,
+    "funding pool",
+    "Erc20Pool",
+    () => deployErc20Pool(signer, cycleSecs, tokenAddr),
+    () => new Erc20Pool__factory().getDeployTransaction(cycleSecs, tokenAddr)
+  );
 }
 
 export async function daiFundingPool(): Promise<void> {
-  const signer = await connectPrivateKeySigner();
-  const tokenAddr = askForAddress("of the DAI token to used in the funding pool");
-  const cycleSecs = askForNumber("the length of the funding cycle in seconds");
-  await deploy("funding pool", () => deployDaiPool(signer, cycleSecs, tokenAddr));
+  const manifest = loadManifest("daiFundingPool", { token: ADDRESS, cycleSecs: NUMBER });
+  const params = manifest.params;
+  const signer = await connectSigner(manifest);
+  const tokenAddr =
+    params.get("token", ADDRESS) ?? askForAddress("of the DAI token to used in the funding pool");
+  const cycleSecs = params.get("cycleSecs", NUMBER) ?? askForCycleSecs();
+  await deployOrExport(
+    manifest,
+    "funding pool",
+    "DaiPool",
+    () => deployDaiPool(signer, cycleSecs, tokenAddr),
+    () => new DaiPool__factory().getDeployTransaction(cycleSecs, tokenAddr)
+  );
 }
 
 export async function claims(): Promise<void> {
-  const signer = await connectPrivateKeySigner();
-  await deploy("claims", () => deployClaims(signer));
+  const manifest = loadManifest("claims", {});
+  const signer = await connectSigner(manifest);
+  await deployOrExport(
+    manifest,
+    "claims",
+    "Claims",
+    () => deployClaims(signer),
+    () => new Claims__factory().getDeployTransaction()
+  );
 }
 
 export async function claimsV2(): Promise<void> {
-  const signer = await connectPrivateKeySigner();
-  await deploy("claimsV2", () => deployClaimsV2(signer));
-}
-
-async function connectPrivateKeySigner(): Promise<Signer> {
-  const signingKey = askForSigningKey("to sign all the transactions");
-  const network = askForNetwork("to connect to");
-  const provider = new providers.InfuraProvider(network, INFURA_ID);
-  const wallet = new Wallet(signingKey, provider);
-  const networkName = (await wallet.provider.getNetwork()).name;
-  console.log("Connected to", networkName, "using account", wallet.address);
-
-  const defaultGasPrice = await provider.getGasPrice();
-  const gasPrice = askForGasPrice("to use in all transactions", defaultGasPrice);
-  provider.getGasPrice = function (): Promise<BigNumber> {
-    return Promise.resolve(gasPrice);
-  };
+  const manifest = loadManifest("claimsV2", {});
+  const signer = await connectSigner(manifest);
+  await deployOrExport(
+    manifest,
+    "claimsV2",
+    "ClaimsV2",
+    () => deployClaimsV2(signer),
+    () => new ClaimsV2__factory().getDeployTransaction()
+  );
+}
+
+export async function governancePropose(): Promise<void> {
+  const manifest = loadManifest("governancePropose", { governor: ADDRESS, proposalFile: TEXT });
+  const signer = await connectSigner(manifest);
+  const client = await connectGovernance(manifest, signer);
+  const proposalFile =
+    manifest.params.get("proposalFile", TEXT) ?? askFor("the path of the proposal JSON file");
+  const { description, actions } = readProposalFile(proposalFile);
+  const names = contractNames(await networkName(signer.provider));
+  console.log("Proposal:", description);
+  console.log(formatActions(actions, names));
+  if (!manifest.isFromFile && !askYesNo("Submit the proposal?")) return;
+  const proposalId = await client.propose(actions, description);
+  console.log("Submitted proposal", proposalId);
+}
+
+export async function governanceStatus(): Promise<void> {
+  const manifest = loadManifest("governanceStatus", { governor: ADDRESS, proposalId: NUMBER });
+  const signer = await connectSigner(manifest);
+  const client = await connectGovernance(manifest, signer);
+  const proposalId = manifest.params.get("proposalId", NUMBER) ?? askForNumber("the proposal ID");
+  const status = await client.status(proposalId);
+  console.log("Proposal", proposalId, "is", ProposalState[status.state]);
+  console.log("Voting from block", status.startBlock, "until block", status.endBlock);
+  if (status.eta !== undefined && status.expiresAt !== undefined) {
+    console.log("Executable from", formatTime(status.eta), "until", formatTime(status.expiresAt));
+  }
+  const names = contractNames(await networkName(signer.provider));
+  console.log(formatActions(await client.actions(proposalId), names));
+}
+
+export async function governanceQueue(): Promise<void> {
+  const manifest = loadManifest("governanceQueue", { governor: ADDRESS, proposalId: NUMBER });
+  const signer = await connectSigner(manifest);
+  const client = await connectGovernance(manifest, signer);
+  const proposalId = manifest.params.get("proposalId", NUMBER) ?? askForNumber("the proposal ID");
+  const eta = await client.queue(proposalId);
+  console.log("Queued proposal", proposalId, "executable from", formatTime(eta));
+}
+
+export async function governanceExecute(): Promise<void> {
+  const manifest = loadManifest("governanceExecute", { governor: ADDRESS, proposalId: NUMBER });
+  const signer = await connectSigner(manifest);
+  const client = await connectGovernance(manifest, signer);
+  const proposalId = manifest.params.get("proposalId", NUMBER) ?? askForNumber("the proposal ID");
+  await client.execute(proposalId);
+  console.log("Executed proposal", proposalId);
+}
+
+// Connects to the governor from the manifest, the address book or provided by the user
+async function connectGovernance(
+  manifest: Manifest,
+  signer: DeploymentSigner
+): Promise<GovernanceClient> {
+  const network = await networkName(signer.provider);
+  const governors = readAddressBook(network).filter(({ contract }) => contract == "Governor");
+  const governorAddr =
+    manifest.params.get("governor", ADDRESS) ??
+    governors.pop()?.address ??
+    askForAddress("of the governor");
+  console.log("Using governor", governorAddr);
+  return new GovernanceClient(Governor__factory.connect(governorAddr, signer));
+}
+
+// Connects the signer from the manifest or the source chosen by the user.
+// In a dry run the signer is connected to the in-process network,
+// but the nonce, the balance and the default fees are taken from the real one.
+// The in-process network doesn't support EIP-1559, so it uses the max fee as the gas price.
+async function connectSigner(manifest: Manifest): Promise<DeploymentSigner> {
+  if (exporting !== undefined) return connectSafe(manifest);
+  const source = manifest.signer ?? askForSignerSource("to sign all the transactions");
+  if (rehearsal !== undefined && source.type == "jsonRpc") {
+    throw new Error("The dry run needs the signer's key, it can't use an external signer");
+  }
+  const realProvider = await connectToNetwork(manifest);
+  let signer: DeploymentSigner;
+  let signingKey: SigningKey | undefined;
+  if (source.type == "jsonRpc") {
+    const url = source.url ?? askForValid("the URL of the external signer", "URL", parseUrl);
+    const signerRpc = new providers.StaticJsonRpcProvider(url, await realProvider.getNetwork());
+    signer = await ExternalSigner.connect(signerRpc, realProvider, source.address);
+  } else {
+    signingKey = await loadSigningKey(source);
+    signer = new Wallet(signingKey, realProvider);
+  }
+  const networkName = (await realProvider.getNetwork()).name;
+  console.log("Connected to", networkName, "using account", signer.address);
+  console.log("Signing with", describeSignerSource(source));
+
+  const fees = await chooseFees(manifest, realProvider);
+  console.log("Using", formatFees(fees));
+  if (rehearsal !== undefined && signingKey !== undefined) {
+    const nonce = await signer.getTransactionCount("pending");
+    signer = await rehearsal.dryRun.connect(signingKey, nonce, await signer.getBalance());
+    rehearsal.fees = fees;
+    console.log("Dry run on an in-process network with the account nonce", nonce);
+  }
+  const provider = signer.provider as providers.JsonRpcProvider;
+  useFees(provider, rehearsal === undefined ? fees : { gasPrice: maxGasPrice(fees) });
   // eslint-disable-next-line @typescript-eslint/unbound-method
   const superSendTransaction = provider.sendTransaction;
   provider.sendTransaction = async (txBytes): Promise<providers.TransactionResponse> => {
@@ -132,101 +577,216 @@ async function connectPrivateKeySigner(): Promise<Signer> {
     return superSendTransaction.call(provider, txBytes);
   };
 
-  return wallet;
+  return signer;
 }
 
-function askForSigningKey(keyUsage: string): SigningKey {
-  for (;;) {
-    let key = askFor("the private key " + keyUsage, undefined, true);
-    if (!key.startsWith("0x")) {
-      key = "0x" + key;
+// In the export mode the transactions are added to the batch of the Safe instead of being signed
+async function connectSafe(manifest: Manifest): Promise<SafeSigner> {
+  const provider = await connectToNetwork(manifest);
+  const settings = manifest.safeBatch ?? {};
+  const safe = settings.safe ?? askForAddress("of the Safe which will execute the batch");
+  const batch = await SafeBatch.forSafe(provider, safe, settings.createCall);
+  const name = manifest.params.path;
+  const file = settings.file ?? askFor("the path of the batch file", `${name}-safe-batch.json`);
+  const signer = new SafeSigner(safe, provider);
+  exporting = { safe: signer, batch, name, file, multiSend: settings.multiSend };
+  console.log("Exporting the transactions of the Safe", batch.safe, "to", file);
+  return signer;
+}
+
+// Connects to the network from the manifest or chosen by the user and verifies its chain ID.
+// The networks without a profile need the RPC URL and the chain ID.
+async function connectToNetwork(manifest: Manifest): Promise<providers.JsonRpcProvider> {
+  const name = manifest.network ?? askForNetwork("to connect to");
+  const known = findNetworkProfile(name);
+  const rpcUrl =
+    manifest.rpcUrl ??
+    (known === undefined ? askForValid("the RPC URL of " + name, "URL", parseUrl) : undefined);
+  const chainId =
+    manifest.chainId ??
+    (known === undefined
+      ? askForValid("the chain ID of " + name, "chain ID", parseChainId)
+      : undefined);
+  const profile = networkProfile(name, rpcUrl, chainId);
+  console.log("Connecting to", profile.name, "with chain ID", profile.chainId);
+  return connectNetwork(profile);
+}
+
+// Reads the key from the source, asks for everything missing in it
+async function loadSigningKey(
+  source: Exclude<SignerSource, { type: "jsonRpc" }>
+): Promise<SigningKey> {
+  switch (source.type) {
+    case "privateKey":
+      return source.signingKey ?? askForSigningKey("to sign all the transactions");
+    case "keystore": {
+      const json =
+        source.json ??
+        askForValid("the path of the JSON keystore file", "keystore file", readKeystoreFile);
+      console.log("Decrypting the keystore of", keystoreAddress(json));
+      for (;;) {
+        try {
+          return await decryptKeystore(json, askFor("the keystore password", undefined, true));
+        } catch (e) {
+          printInvalidInput("keystore password");
+        }
+      }
     }
-    try {
-      return new SigningKey(key);
-    } catch (e) {
-      printInvalidInput("private key");
+    case "mnemonic": {
+      const mnemonic =
+        source.mnemonic ?? askForValid("the mnemonic", "mnemonic", parseMnemonic, true);
+      const hdPath = source.hdPath ?? askForHdPath(mnemonic);
+      return mnemonicSigningKey(mnemonic, hdPath);
     }
   }
 }
 
+// The fees from the manifest or provided by the user, the defaults are based on the fee history.
+// The legacy gas price is used if it's in the manifest, if the user chooses it
+// or if the network doesn't support EIP-1559.
+async function chooseFees(manifest: Manifest, provider: providers.JsonRpcProvider): Promise<Fees> {
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = manifest;
+  if (gasPrice !== undefined) return { gasPrice };
+  let suggested;
+  try {
+    suggested = await suggestFees(provider);
+  } catch (e) {
+    console.log("The network doesn't support the EIP-1559 fees, using the legacy gas price");
+  }
+  const feesInManifest = maxFeePerGas !== undefined || maxPriorityFeePerGas !== undefined;
+  if (
+    suggested === undefined ||
+    (!feesInManifest && askYesNo("Use the legacy gas price instead of the EIP-1559 fees?"))
+  ) {
+    const defaultGasPrice = await provider.getGasPrice();
+    return { gasPrice: askForGasPrice("gas price to use in all transactions", defaultGasPrice) };
+  }
+  return {
+    maxFeePerGas: maxFeePerGas ?? askForGasPrice("max fee per gas", suggested.maxFeePerGas),
+    maxPriorityFeePerGas:
+      maxPriorityFeePerGas ??
+      askForGasPrice("max priority fee per gas", suggested.maxPriorityFeePerGas),
+  };
+}
+
+// The steps of a multi-step deployment, which are persisted until the deployment is finished.
+// If the previous run of the deployment has failed, it's resumed.
+async function resumableSteps(
+  signer: DeploymentSigner,
+  deployment: string
+): Promise<DeploymentSteps> {
+  if (rehearsal !== undefined || exporting !== undefined) return new DeploymentSteps(signer);
+  const network = await networkName(signer.provider);
+  const statePath = path.join(DEPLOYMENTS_DIR, "pending", `${network}-${deployment}.json`);
+  if (existsSync(statePath)) {
+    console.log("Resuming the unfinished deployment from", statePath);
+  }
+  return new DeploymentSteps(signer, statePath);
+}
+
+function askForSigningKey(keyUsage: string): SigningKey {
+  return askForValid("the private key " + keyUsage, "private key", parseSigningKey, true);
+}
+
+function askForSignerSource(signerUsage: string): SignerSource {
+  const sources: [string, SignerSource["type"]][] = [
+    ["Encrypted JSON keystore file", "keystore"],
+    ["BIP-39 mnemonic", "mnemonic"],
+    ["External signer over JSON-RPC, e.g. Clef", "jsonRpc"],
+    ["Private key", "privateKey"],
+  ];
+  const query = "Choose the signer " + signerUsage;
+  const index = keyInSelect(
+    sources.map(([name]) => name),
+    query,
+    { cancel: false }
+  );
+  return { type: sources[index][1] };
+}
+
+// Lets the user choose one of the first accounts derived from the mnemonic or enter the HD path
+function askForHdPath(mnemonic: string): string {
+  const addresses = mnemonicAddresses(mnemonic, DEFAULT_HD_PATH, 10);
+  const paths = addresses.map((_, index) => `${DEFAULT_HD_PATH}/${index}`);
+  const choices = addresses.map((address, index) => `${paths[index]} ${address}`);
+  const index = keyInSelect(choices, "Choose the account", { cancel: "Enter another HD path" });
+  return index >= 0 ? paths[index] : askForValid("the HD path", "HD path", parseHdPath);
+}
+
+function readKeystoreFile(keystorePath: string): string | undefined {
+  try {
+    const json = readFileSync(keystorePath, "utf8");
+    keystoreAddress(json);
+    return json;
+  } catch (e) {
+    return undefined;
+  }
+}
+
 function askForNetwork(networkUsage: string): string {
-  const networks = ["mainnet", "goerli"];
   const query = "Enter the network " + networkUsage;
-  const network = keyInSelect(networks, query, { cancel: false });
-  return networks[network];
+  const names = NETWORK_PROFILES.map(({ name }) => name);
+  const network = keyInSelect(names, query, { cancel: "Another network" });
+  return network >= 0 ? names[network] : askForValid("the network name", "network", parseNetwork);
 }
 
-function askForGasPrice(gasUsage: string, defaultPrice: BigNumber): BigNumber {
-  const giga = 10 ** 9;
-  const question = "gas price " + gasUsage + " in GWei";
-  const defaultPriceGwei = (defaultPrice.toNumber() / giga).toString();
-  for (;;) {
-    const priceStr = askFor(question, defaultPriceGwei);
-    const price = parseFloat(priceStr);
-    if (Number.isFinite(price) && price >= 0) {
-      const priceWei = (price * giga).toFixed();
-      return BigNumber.from(priceWei);
-    }
-    printInvalidInput("amount");
-  }
+function askForGasPrice(priceUsage: string, defaultPrice: BigNumber): BigNumber {
+  const question = "the " + priceUsage + " in GWei";
+  const defaultPriceGwei = utils.formatUnits(defaultPrice, "gwei");
+  return askForValid(question, "amount", parseGasPrice, false, defaultPriceGwei);
 }
 
 function askForAddress(addressUsage: string): string {
-  for (;;) {
-    const address = askFor("the address " + addressUsage);
-    if (utils.isAddress(address)) {
-      return address;
-    }
-    printInvalidInput("address");
-  }
+  return askForValid("the address " + addressUsage, "address", parseAddress);
 }
 
 function askForAmount(amountUsage: string, decimals: number, symbol: string): BigNumber {
   const amount = askForBigNumber("amount " + amountUsage + " in " + symbol);
+  return toAmount(amount, decimals);
+}
+
+function toAmount(amount: BigNumber, decimals: number): BigNumber {
   return BigNumber.from(10).pow(decimals).mul(amount);
 }
 
 function askForBigNumber(numberUsage: string): BigNumber {
-  for (;;) {
-    const bigNumber = askFor(numberUsage);
-    try {
-      return BigNumber.from(bigNumber);
-    } catch (e) {
-      printInvalidInput("number");
-    }
-  }
+  return askForValid(numberUsage, "number", parseBigNumber);
 }
 
 function askForNumber(numberUsage: string): number {
-  for (;;) {
-    const numStr = askFor(numberUsage);
-    const num = parseInt(numStr);
-    if (Number.isInteger(num)) {
-      return num;
-    }
-    printInvalidInput("number");
-  }
+  return askForValid(numberUsage, "number", parseNumber);
+}
+
+function askForCycleSecs(): number {
+  return askForNumber("the length of the funding cycle in seconds");
 }
 
 function askForTimestamp(dateUsage: string): number {
-  for (;;) {
-    const dateStr = askFor(
-      "the date " +
-        dateUsage +
-        " in the ISO-8601 format, e.g. 2020-01-21, the timezone is UTC if unspecified"
-    );
-    try {
-      const date = new Date(dateStr);
-      return date.valueOf() / 1000;
-    } catch (e) {
-      printInvalidInput("date");
-    }
-  }
+  const query =
+    "the date " +
+    dateUsage +
+    " in the ISO-8601 format, e.g. 2020-01-21, the timezone is UTC if unspecified";
+  return askForValid(query, "date", parseTimestamp);
 }
 
 function askForDaysInSeconds(daysUsage: string): number {
-  const days = askForNumber(daysUsage + " in whole days");
-  return days * 24 * 60 * 60;
+  return askForValid(daysUsage + " in whole days", "number", parseDays);
+}
+
+function askForValid<T>(
+  query: string,
+  inputType: string,
+  parse: Parser<T>,
+  hideInput = false,
+  defaultInput?: string
+): T {
+  for (;;) {
+    const parsed = parse(askFor(query, defaultInput, hideInput));
+    if (parsed !== undefined) {
+      return parsed;
+    }
+    printInvalidInput(inputType);
+  }
 }
 
 function askYesNo(query: string): boolean {
@@ -248,7 +808,68 @@ function printInvalidInput(inputType: string): void {
   console.log("This is not a valid", inputType);
 }
 
-async function deploy<T extends Contract>(name: string, fn: () => Promise<T>): Promise<T> {
+// Deploys a contract, on failure asks if it should be retried.
+// When the deployment is driven by a manifest file, it's never retried.
+// The deployed contract is added to the address book of the network.
+async function deploy<T extends Contract>(
+  manifest: Manifest,
+  name: string,
+  contractType: ContractType,
+  fn: () => Promise<T>
+): Promise<[T, DeploymentRecord]> {
+  const contract = await deployRetrying(manifest, name, fn);
+  const record = await deploymentRecord(name, contractType, contract);
+  await recordDeployment(contract.provider, record);
+  return [contract, record];
+}
+
+// Deploys the contract or in the export mode adds its creation to the batch.
+// The deployment transaction is built with the `getDeployTransaction` of the contract factory.
+async function deployOrExport<T extends Contract>(
+  manifest: Manifest,
+  name: string,
+  contractType: ContractType,
+  fn: () => Promise<T>,
+  deployTransaction: () => providers.TransactionRequest
+): Promise<void> {
+  const batch = exporting?.batch;
+  if (batch === undefined) {
+    await deploy(manifest, name, contractType, fn);
+    return;
+  }
+  printExported(name, batch.create(`Deploy the ${name} contract`, deployTransaction()));
+}
+
+// Adds the record to the address book of the network unless it's a dry run
+async function recordDeployment(
+  provider: providers.Provider,
+  record: DeploymentRecord
+): Promise<void> {
+  if (rehearsal !== undefined) return;
+  appendToAddressBook(await networkName(provider), record);
+}
+
+// In a dry run, replaces the ENS with a stand-in in which the signer owns the domain
+async function ensOrStandIn(
+  ensAddr: string,
+  signer: DeploymentSigner,
+  label: string
+): Promise<string> {
+  if (rehearsal === undefined) return ensAddr;
+  return rehearsal.dryRun.standInEns(ensAddr, signer.address, label);
+}
+
+// In a dry run, replaces the token with a stand-in in which the signer has all the tokens
+async function tokenOrStandIn(tokenAddr: string, signer: DeploymentSigner): Promise<string> {
+  if (rehearsal === undefined) return tokenAddr;
+  return rehearsal.dryRun.standInToken(tokenAddr, signer.address);
+}
+
+async function deployRetrying<T extends Contract>(
+  manifest: Manifest,
+  name: string,
+  fn: () => Promise<T>
+): Promise<T> {
   for (;;) {
     try {
       console.log("Deploying", name, "contract");
@@ -256,8 +877,8 @@ async function deploy<T extends Contract>(name: string, fn: () => Promise<T>): P
       printDeployed(name, contract.address);
       return contract;
     } catch (e) {
-      console.log(e);
-      if (askYesNo("Retry?") == false) {
+      console.log(errorMessage(e));
+      if (manifest.isFromFile || askYesNo("Retry?") == false) {
         throw "Deployment failed";
       }
     }
@@ -267,3 +888,7 @@ async function deploy<T extends Contract>(name: string, fn: () => Promise<T>): P
 function printDeployed(name: string, address: string): void {
   console.log("Deployed", name, "contract", "under address", address);
 }
+
+function printExported(name: string, address: string): void {
+  console.log("Exported", name, "contract", "predicted under address", address);
+}
@@ -16,6 +16,7 @@ import { ENS } from "../contract-bindings/ethers/ENS";
 import { EthPool } from "../contract-bindings/ethers/EthPool";
 import { Governor } from "../contract-bindings/ethers/Governor";
 import { Phase0 } from "../contract-bindings/ethers/Phase0";
+import { Proxy } from "../contract-bindings/ethers/Proxy";
 import { RadicleToken } from "../contract-bindings/ethers/RadicleToken";
 import { Registrar } from "../contract-bindings/ethers/Registrar";
 import { Timelock } from "../contract-bindings/ethers/Timelock";
@@ -34,20 +35,24 @@ import {
   IERC20__factory,
   IERC721__factory,
   Phase0__factory,
+  Proxy__factory,
   RadicleToken__factory,
   Registrar__factory,
   Timelock__factory,
   VestingToken__factory,
 } from "../contract-bindings/ethers";
+import { DeploymentSteps } from "./deployment-steps";
 import { labelHash } from "./ens";
+import { decodeError, transactionError } from "./errors";
 
 export async function nextDeployedContractAddr(
   signer: Signer,
-  afterTransactions: number
+  afterTransactions: number,
+  blockTag?: providers.BlockTag
 ): Promise<string> {
   return utils.getContractAddress({
     from: await signer.getAddress(),
-    nonce: (await signer.getTransactionCount()) + afterTransactions,
+    nonce: (await signer.getTransactionCount(blockTag)) + afterTransactions,
   });
 }
 
@@ -63,28 +68,49 @@ export interface DeployedContracts {
   claims: Claims;
 }
 
-export async function deployAll(signer: Signer): Promise<DeployedContracts> {
+// Every contract is deployed in its own step, so a failed deployment can be resumed
+export async function deployAll(
+  signer: Signer,
+  steps = new DeploymentSteps(signer)
+): Promise<DeployedContracts> {
   const signerAddr = await signer.getAddress();
-  const rad = await deployRadicleToken(signer, signerAddr);
-  const dai = await deployTestDai(signer);
-  const timelock = await deployTimelock(signer, signerAddr, 2 * 60 * 60 * 24);
-  const gov = await deployGovernance(signer, timelock.address, rad.address, signerAddr);
+  const rad = await steps.deploy(
+    "Radicle Token",
+    () => deployRadicleToken(signer, signerAddr),
+    RadicleToken__factory
+  );
+  const dai = await steps.deploy("DAI", () => deployTestDai(signer), Dai__factory);
+  const timelock = await steps.deploy(
+    "timelock",
+    () => deployTimelock(signer, signerAddr, 2 * 60 * 60 * 24),
+    Timelock__factory
+  );
+  const gov = await steps.deploy(
+    "governor",
+    () => deployGovernance(signer, timelock.address, rad.address, signerAddr),
+    Governor__factory
+  );
   const label = "radicle";
   const minCommitmentAge = 50;
-  const ens = await deployTestEns(signer, label);
-  const registrar = await deployRegistrar(
-    signer,
-    ens.address,
-    rad.address,
-    signerAddr,
-    label,
-    minCommitmentAge
-  );
-  await transferEthDomain(ens, label, registrar.address);
-  const ethPool = await deployEthPool(signer, 10);
-  const erc20Pool = await deployErc20Pool(signer, 10, rad.address);
-  const daiPool = await deployDaiPool(signer, 10, dai.address);
-  const claims = await deployClaims(signer);
+  const ens = await deployTestEns(signer, label, steps.scoped("test ENS"));
+  const registrar = await steps.deploy(
+    "registrar",
+    () => deployRegistrar(signer, ens.address, rad.address, signerAddr, label, minCommitmentAge),
+    Registrar__factory
+  );
+  await transferEthDomain(ens, label, registrar.address, steps.scoped("eth domain"));
+  const ethPool = await steps.deploy("eth pool", () => deployEthPool(signer, 10), EthPool__factory);
+  const erc20Pool = await steps.deploy(
+    "erc20 pool",
+    () => deployErc20Pool(signer, 10, rad.address),
+    Erc20Pool__factory
+  );
+  const daiPool = await steps.deploy(
+    "dai pool",
+    () => deployDaiPool(signer, 10, dai.address),
+    DaiPool__factory
+  );
+  const claims = await steps.deploy("claims", () => deployClaims(signer), Claims__factory);
 
   return { gov, rad, dai, registrar, ens, ethPool, erc20Pool, daiPool, claims };
 }
@@ -93,6 +119,8 @@ export async function deployRadicleToken(signer: Signer, account: string): Promi
   return deployOk(new RadicleToken__factory(signer).deploy(account));
 }
 
+// The token allowance is given to the address under which the vesting contract is deployed.
+// When resumed, the approval isn't repeated, so no allowance is left dangling.
 export async function deployVestingToken(
   signer: Signer,
   tokenAddr: string,
@@ -101,21 +129,35 @@ export async function deployVestingToken(
   amount: BigNumberish,
   vestingStartTime: BigNumberish,
   vestingPeriod: BigNumberish,
-  cliffPeriod: BigNumberish
+  cliffPeriod: BigNumberish,
+  steps = new DeploymentSteps(signer)
 ): Promise<VestingToken> {
   const token = IERC20__factory.connect(tokenAddr, signer);
-  const vestingAddr = await nextDeployedContractAddr(signer, 1);
-  await submitOk(token.approve(vestingAddr, amount));
-  return deployOk(
-    new VestingToken__factory(signer).deploy(
-      tokenAddr,
-      owner,
-      beneficiary,
-      amount,
-      vestingStartTime,
-      vestingPeriod,
-      cliffPeriod
-    )
+  const vestingAddr = await steps.value("vesting address", () =>
+    nextDeployedContractAddr(signer, 1, "pending")
+  );
+  const signerAddr = await signer.getAddress();
+  await steps.submit(
+    "approve",
+    () => token.approve(vestingAddr, amount),
+    async () => (await token.allowance(signerAddr, vestingAddr)).gte(amount)
+  );
+  return steps.deploy(
+    "vesting",
+    () =>
+      deployOk(
+        new VestingToken__factory(signer).deploy(
+          tokenAddr,
+          owner,
+          beneficiary,
+          amount,
+          vestingStartTime,
+          vestingPeriod,
+          cliffPeriod
+        )
+      ),
+    VestingToken__factory,
+    vestingAddr
   );
 }
 
@@ -141,16 +183,23 @@ export async function deployRegistrar(
 
 // The ENS signer must be the owner of the domain.
 // The new owner becomes the registrant, owner and resolver of the domain.
-export async function transferEthDomain(ens: ENS, label: string, newOwner: string): Promise<void> {
+export async function transferEthDomain(
+  ens: ENS,
+  label: string,
+  newOwner: string,
+  steps = new DeploymentSteps(ens.signer)
+): Promise<void> {
   const signerAddr = await ens.signer.getAddress();
   const ethNode = utils.namehash("eth");
   const ethRegistrarAddr = await ens.owner(ethNode);
   assert.notStrictEqual(ethRegistrarAddr, constants.AddressZero, "No eth registrar found on ENS");
   const labelNode = utils.namehash(label + ".eth");
-  await submitOk(ens.setRecord(labelNode, newOwner, newOwner, 0));
+  await steps.submit("set record", () => ens.setRecord(labelNode, newOwner, newOwner, 0));
   const tokenId = labelHash(label);
   const ethRegistrar = IERC721__factory.connect(ethRegistrarAddr, ens.signer);
-  await submitOk(ethRegistrar.transferFrom(signerAddr, newOwner, tokenId));
+  await steps.submit("transfer registration", () =>
+    ethRegistrar.transferFrom(signerAddr, newOwner, tokenId)
+  );
 }
 
 export async function deployGovernance(
@@ -192,15 +241,32 @@ export async function deployDaiPool(
 
 // The signer becomes an owner of the '', 'eth' and '<label>.eth' domains,
 // the owner of the root ENS and the owner and controller of the 'eth' registrar
-export async function deployTestEns(signer: Signer, label: string): Promise<ENS> {
+export async function deployTestEns(
+  signer: Signer,
+  label: string,
+  steps = new DeploymentSteps(signer)
+): Promise<ENS> {
   const signerAddr = await signer.getAddress();
-  const ens = await deployOk(new ENSRegistry__factory(signer).deploy());
-  const ethRegistrar = await deployOk(
-    new BaseRegistrarImplementation__factory(signer).deploy(ens.address, utils.namehash("eth"))
+  const ens = await steps.deploy(
+    "ENS",
+    () => deployOk(new ENSRegistry__factory(signer).deploy()),
+    ENSRegistry__factory
+  );
+  const ethRegistrar = await steps.deploy(
+    "eth registrar",
+    () =>
+      deployOk(
+        new BaseRegistrarImplementation__factory(signer).deploy(ens.address, utils.namehash("eth"))
+      ),
+    BaseRegistrarImplementation__factory
+  );
+  await steps.submit("eth owner", () =>
+    ens.setSubnodeOwner(utils.namehash(""), labelHash("eth"), ethRegistrar.address)
+  );
+  await steps.submit("eth controller", () => ethRegistrar.addController(signerAddr));
+  await steps.submit("register label", () =>
+    ethRegistrar.register(labelHash(label), signerAddr, 10 ** 10)
   );
-  await submitOk(ens.setSubnodeOwner(utils.namehash(""), labelHash("eth"), ethRegistrar.address));
-  await submitOk(ethRegistrar.addController(signerAddr));
-  await submitOk(ethRegistrar.register(labelHash(label), signerAddr, 10 ** 10));
   return ens;
 }
 
@@ -235,20 +301,40 @@ export async function deployClaimsV2(signer: Signer): Promise<ClaimsV2> {
   return deployOk(new ClaimsV2__factory(signer).deploy());
 }
 
+// The proxy has no implementation, it must be set up with `upgradeProxy`
+export async function deployProxy(signer: Signer, admin: string): Promise<Proxy> {
+  return deployOk(new Proxy__factory(signer).deploy(admin));
+}
+
 export async function deployTestDai(signer: Signer): Promise<Dai> {
   return deployOk(new Dai__factory(signer).deploy());
 }
 
 async function deployOk<T extends BaseContract>(contractPromise: Promise<T>): Promise<T> {
-  const contract = await contractPromise;
-  await contract.deployed();
+  const contract = await contractPromise.catch((error) => Promise.reject(decodeError(error)));
+  await submitOk(Promise.resolve(contract.deployTransaction), contract.provider);
   return contract;
 }
 
+// Waits until the transaction is successfully mined, otherwise throws a `ContractError`
+// with the revert reason if it can be recovered. If the transaction has been mined and failed,
+// the reason is recovered by simulating it, which requires the provider.
 export async function submitOk(
-  tx: Promise<providers.TransactionResponse>
+  tx: Promise<providers.TransactionResponse>,
+  provider?: providers.Provider
 ): Promise<ContractReceipt> {
-  const receipt = await (await tx).wait();
-  assert.strictEqual(receipt.status, 1, "transaction must be successful");
+  const response = await tx.catch((error) => Promise.reject(decodeError(error)));
+  let receipt: ContractReceipt;
+  try {
+    receipt = await response.wait();
+  } catch (error) {
+    const failed = (error as { receipt?: ContractReceipt }).receipt;
+    if (failed === undefined || provider === undefined) throw decodeError(error);
+    throw await transactionError(provider, response, failed.blockNumber, error);
+  }
+  if (receipt.status != 1) {
+    if (provider === undefined) throw new Error(`Transaction ${response.hash} has failed`);
+    throw await transactionError(provider, response, receipt.blockNumber);
+  }
   return receipt;
 }
@@ -0,0 +1,444 @@
+import { readFileSync } from "fs";
+import * as path from "path";
+import { BigNumber, utils } from "ethers";
+import { load as loadYaml, FAILSAFE_SCHEMA } from "js-yaml";
+import { keystoreAddress, SignerSource } from "./signers";
+import SigningKey = utils.SigningKey;
+
+// The environment variable with the path to the deployment manifest.
+// When it's not set, all the deployment parameters are asked for interactively.
+export const MANIFEST_ENV = "DEPLOY_MANIFEST";
+
+// The environment variables overriding the network from the manifest, see `NetworkProfile`
+export const NETWORK_ENV = "DEPLOY_NETWORK";
+export const RPC_URL_ENV = "DEPLOY_RPC_URL";
+export const CHAIN_ID_ENV = "DEPLOY_CHAIN_ID";
+
+// Parses a user input, returns undefined if it's invalid
+export type Parser<T> = (input: string) => T | undefined;
+
+export interface FieldType<T> {
+  // The name of the input type used in the error messages
+  name: string;
+  parse: Parser<T>;
+}
+
+// The expected structure of a manifest object.
+// A field may be a list of objects, which is described by a single-element array.
+export interface Schema {
+  [field: string]: FieldType<unknown> | Schema | [Schema];
+}
+
+export const ADDRESS: FieldType<string> = { name: "address", parse: parseAddress };
+export const BIG_NUMBER: FieldType<BigNumber> = { name: "number", parse: parseBigNumber };
+export const NUMBER: FieldType<number> = { name: "number", parse: parseNumber };
+export const DAYS_IN_SECONDS: FieldType<number> = { name: "number of days", parse: parseDays };
+export const TIMESTAMP: FieldType<number> = { name: "date", parse: parseTimestamp };
+export const TEXT: FieldType<string> = { name: "text", parse: parseText };
+export const NETWORK: FieldType<string> = { name: "network", parse: parseNetwork };
+export const CHAIN_ID: FieldType<number> = { name: "chain ID", parse: parseChainId };
+export const GAS_PRICE: FieldType<BigNumber> = { name: "amount", parse: parseGasPrice };
+export const PRIVATE_KEY_FILE: FieldType<SigningKey> = {
+  name: "private key file",
+  parse: parseSigningKeyFile,
+};
+// The keystore JSON read from the file
+export const KEYSTORE_FILE: FieldType<string> = { name: "keystore file", parse: parseKeystoreFile };
+// The mnemonic read from the file
+export const MNEMONIC_FILE: FieldType<string> = { name: "mnemonic file", parse: parseMnemonicFile };
+export const HD_PATH: FieldType<string> = { name: "HD path", parse: parseHdPath };
+export const URL: FieldType<string> = { name: "URL", parse: parseUrl };
+
+// The fields common for all the deployments
+const COMMON_SCHEMA: Schema = {
+  // A known network or any name, which then needs `rpcUrl` and `chainId`
+  network: NETWORK,
+  rpcUrl: URL,
+  chainId: CHAIN_ID,
+  // All in GWei, the legacy `gasPrice` can't be mixed with the EIP-1559 fees
+  gasPrice: GAS_PRICE,
+  maxFeePerGas: GAS_PRICE,
+  maxPriorityFeePerGas: GAS_PRICE,
+  // Only one source of the signer can be used, see `SignerSource`
+  signer: {
+    privateKeyFile: PRIVATE_KEY_FILE,
+    keystoreFile: KEYSTORE_FILE,
+    mnemonicFile: MNEMONIC_FILE,
+    hdPath: HD_PATH,
+    jsonRpcUrl: URL,
+    address: ADDRESS,
+  },
+  // Used only when the deployment is exported as a Safe batch, see `SafeBatch`
+  safeBatch: {
+    safe: ADDRESS,
+    createCall: ADDRESS,
+    multiSend: ADDRESS,
+    // The path is relative to the manifest file
+    file: TEXT,
+  },
+};
+
+// The signer fields used by each signer source
+const SIGNER_SOURCE_FIELDS: [SignerSource["type"], string[]][] = [
+  ["privateKey", ["privateKeyFile"]],
+  ["keystore", ["keystoreFile"]],
+  ["mnemonic", ["mnemonicFile", "hdPath"]],
+  ["jsonRpc", ["jsonRpcUrl", "address"]],
+];
+
+// A JSON object from the deployment manifest
+export class ManifestSection {
+  // The path of the object in the manifest, used in the error messages
+  readonly path: string;
+  private readonly values: Record<string, unknown>;
+
+  constructor(path: string, values: Record<string, unknown>) {
+    this.path = path;
+    this.values = values;
+  }
+
+  // Returns the parsed field value or undefined if the field is missing.
+  // The field must have been validated first.
+  get<T>(field: string, type: FieldType<T>): T | undefined {
+    const value = this.values[field];
+    if (value === undefined) return undefined;
+    const parsed = parseValue(value, type.parse);
+    if (parsed === undefined) {
+      throw new Error(fieldError(this.path, field, value, type));
+    }
+    return parsed;
+  }
+
+  // Returns the nested object, which is empty if the field is missing
+  section(field: string): ManifestSection {
+    const value = this.values[field];
+    return new ManifestSection(fieldPath(this.path, field), isObject(value) ? value : {});
+  }
+
+  // Returns the nested list of objects, which is empty if the field is missing
+  list(field: string): ManifestSection[] {
+    const value = this.values[field];
+    if (!Array.isArray(value)) return [];
+    return value.map(
+      (item, idx) => new ManifestSection(`${fieldPath(this.path, field)}[${idx}]`, item)
+    );
+  }
+
+  // Checks all the fields against the schema, returns all the found errors
+  validate(schema: Schema): string[] {
+    const errors = [];
+    for (const field of Object.keys(this.values)) {
+      if (schema[field] === undefined) {
+        errors.push(`${fieldPath(this.path, field)}: unknown field`);
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(schema)) {
+      const value = this.values[field];
+      if (value === undefined) continue;
+      if (Array.isArray(fieldSchema)) {
+        if (!Array.isArray(value) || !value.every(isObject)) {
+          errors.push(`${fieldPath(this.path, field)}: not a list of objects`);
+          continue;
+        }
+        for (const item of this.list(field)) {
+          errors.push(...item.validate(fieldSchema[0]));
+        }
+      } else if (isFieldType(fieldSchema)) {
+        if (parseValue(value, fieldSchema.parse) === undefined) {
+          errors.push(fieldError(this.path, field, value, fieldSchema));
+        }
+      } else if (isObject(value)) {
+        errors.push(...this.section(field).validate(fieldSchema));
+      } else {
+        errors.push(`${fieldPath(this.path, field)}: not an object`);
+      }
+    }
+    return errors;
+  }
+}
+
+// The deployment parameters provided in the manifest
+export interface Manifest {
+  // Set if the parameters are read from a file, the deployment must not ask any questions
+  // except of the parameters missing in the manifest.
+  isFromFile: boolean;
+  signer?: SignerSource;
+  network?: string;
+  rpcUrl?: string;
+  chainId?: number;
+  // If set, the legacy transactions are used
+  gasPrice?: BigNumber;
+  maxFeePerGas?: BigNumber;
+  maxPriorityFeePerGas?: BigNumber;
+  safeBatch?: { safe?: string; createCall?: string; multiSend?: string; file?: string };
+  // The parameters of the deployed contracts
+  params: ManifestSection;
+}
+
+// Loads the manifest pointed to by the `DEPLOY_MANIFEST` environment variable.
+// Only the common fields and the parameters of the given deployment are read.
+// All the fields are validated and if any of them is invalid, all the errors are reported.
+// The network fields are overridden by the environment variables, even without a manifest.
+export function loadManifest(deployment: string, schema: Schema): Manifest {
+  const manifestPath = process.env[MANIFEST_ENV];
+  if (manifestPath === undefined) {
+    return withNetworkEnv({ isFromFile: false, params: new ManifestSection(deployment, {}) });
+  }
+  const values = readManifestFile(manifestPath);
+  const root = new ManifestSection("", values);
+  const common = new ManifestSection("", pickFields(values, Object.keys(COMMON_SCHEMA)));
+  const errors = common.validate(COMMON_SCHEMA);
+  if (
+    values.gasPrice !== undefined &&
+    (values.maxFeePerGas !== undefined || values.maxPriorityFeePerGas !== undefined)
+  ) {
+    errors.push("gasPrice: can't be used together with maxFeePerGas or maxPriorityFeePerGas");
+  }
+  const signerValues = isObject(values.signer) ? values.signer : {};
+  if (signerSourceTypes(signerValues).length > 1) {
+    errors.push("signer: the fields of multiple signer sources can't be used together");
+  }
+  const params = root.section(deployment);
+  if (values[deployment] !== undefined && !isObject(values[deployment])) {
+    errors.push(`${deployment}: not an object`);
+  } else {
+    errors.push(...params.validate(schema));
+  }
+  if (errors.length > 0) {
+    const message = ["Invalid deployment manifest " + manifestPath + ":", ...errors];
+    throw new Error(message.join("\n  "));
+  }
+  const safeBatch = root.section("safeBatch");
+  const batchFile = safeBatch.get("file", TEXT);
+  return withNetworkEnv({
+    isFromFile: true,
+    signer: signerSource(root.section("signer"), signerSourceTypes(signerValues)[0]),
+    network: root.get("network", NETWORK),
+    rpcUrl: root.get("rpcUrl", URL),
+    chainId: root.get("chainId", CHAIN_ID),
+    gasPrice: root.get("gasPrice", GAS_PRICE),
+    maxFeePerGas: root.get("maxFeePerGas", GAS_PRICE),
+    maxPriorityFeePerGas: root.get("maxPriorityFeePerGas", GAS_PRICE),
+    safeBatch: {
+      safe: safeBatch.get("safe", ADDRESS),
+      createCall: safeBatch.get("createCall", ADDRESS),
+      multiSend: safeBatch.get("multiSend", ADDRESS),
+      file: batchFile === undefined ? undefined : manifestRelativePath(batchFile),
+    },
+    params,
+  });
+}
+
+function withNetworkEnv(manifest: Manifest): Manifest {
+  return {
+    ...manifest,
+    network: envValue(NETWORK_ENV, NETWORK) ?? manifest.network,
+    rpcUrl: envValue(RPC_URL_ENV, URL) ?? manifest.rpcUrl,
+    chainId: envValue(CHAIN_ID_ENV, CHAIN_ID) ?? manifest.chainId,
+  };
+}
+
+function envValue<T>(env: string, type: FieldType<T>): T | undefined {
+  const value = process.env[env];
+  if (value === undefined) return undefined;
+  const parsed = type.parse(value);
+  if (parsed === undefined) {
+    const error = `${JSON.stringify(value)} is not a valid ${type.name}`;
+    throw new Error(`Invalid ${env} environment variable: ${error}`);
+  }
+  return parsed;
+}
+
+function signerSourceTypes(signer: Record<string, unknown>): SignerSource["type"][] {
+  const fields = Object.keys(signer);
+  return SIGNER_SOURCE_FIELDS.filter(([, sourceFields]) =>
+    sourceFields.some((field) => fields.includes(field))
+  ).map(([type]) => type);
+}
+
+function signerSource(
+  signer: ManifestSection,
+  type: SignerSource["type"] | undefined
+): SignerSource | undefined {
+  switch (type) {
+    case "privateKey":
+      return { type, signingKey: signer.get("privateKeyFile", PRIVATE_KEY_FILE) };
+    case "keystore":
+      return { type, json: signer.get("keystoreFile", KEYSTORE_FILE) };
+    case "mnemonic":
+      return {
+        type,
+        mnemonic: signer.get("mnemonicFile", MNEMONIC_FILE),
+        hdPath: signer.get("hdPath", HD_PATH),
+      };
+    case "jsonRpc":
+      return { type, url: signer.get("jsonRpcUrl", URL), address: signer.get("address", ADDRESS) };
+    case undefined:
+      return undefined;
+  }
+}
+
+// The manifest is YAML if the file has the `.yaml` or `.yml` extension, otherwise it's JSON.
+// All the YAML values are read as text, so the addresses and the dates don't need quoting.
+function readManifestFile(manifestPath: string): Record<string, unknown> {
+  let values: unknown;
+  try {
+    const text = readFileSync(manifestPath, "utf8");
+    values = /\.ya?ml$/i.test(manifestPath)
+      ? loadYaml(text, { schema: FAILSAFE_SCHEMA })
+      : (JSON.parse(text) as unknown);
+  } catch (e) {
+    throw new Error(`Failed to read deployment manifest ${manifestPath}: ${String(e)}`);
+  }
+  if (!isObject(values)) {
+    throw new Error(`Invalid deployment manifest ${manifestPath}: not an object`);
+  }
+  return values;
+}
+
+export function parseSigningKey(input: string): SigningKey | undefined {
+  const key = input.startsWith("0x") ? input : "0x" + input;
+  try {
+    return new SigningKey(key);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function parseSigningKeyFile(keyPath: string): SigningKey | undefined {
+  const key = readManifestRelativeFile(keyPath);
+  return key === undefined ? undefined : parseSigningKey(key.trim());
+}
+
+// Checks if the file is a keystore, but doesn't decrypt it
+function parseKeystoreFile(keystorePath: string): string | undefined {
+  const json = readManifestRelativeFile(keystorePath);
+  if (json === undefined) return undefined;
+  try {
+    keystoreAddress(json);
+    return json;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function parseMnemonicFile(mnemonicPath: string): string | undefined {
+  const mnemonic = readManifestRelativeFile(mnemonicPath);
+  return mnemonic === undefined ? undefined : parseMnemonic(mnemonic);
+}
+
+// The path is relative to the manifest file, returns undefined if it can't be read
+function readManifestRelativeFile(filePath: string): string | undefined {
+  try {
+    return readFileSync(manifestRelativePath(filePath), "utf8");
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function manifestRelativePath(filePath: string): string {
+  return path.resolve(path.dirname(process.env[MANIFEST_ENV] ?? "."), filePath);
+}
+
+// Returns the mnemonic with the words separated with single spaces
+export function parseMnemonic(input: string): string | undefined {
+  const mnemonic = input.trim().split(/\s+/).join(" ");
+  return utils.isValidMnemonic(mnemonic) ? mnemonic : undefined;
+}
+
+// Parses an absolute HD path, e.g. `m/44'/60'/0'/0/0`
+export function parseHdPath(input: string): string | undefined {
+  return /^m(\/\d+'?)+$/.test(input) ? input : undefined;
+}
+
+export function parseUrl(input: string): string | undefined {
+  return /^(https?|wss?):\/\/\S+$/.test(input) ? input : undefined;
+}
+
+// The network name is used in the file names, e.g. of the address book
+export function parseNetwork(input: string): string | undefined {
+  return /^[\w-]+$/.test(input) ? input : undefined;
+}
+
+export function parseChainId(input: string): number | undefined {
+  const chainId = parseNumber(input);
+  return chainId !== undefined && chainId > 0 ? chainId : undefined;
+}
+
+// Parses a price in GWei, returns it in Wei
+export function parseGasPrice(input: string): BigNumber | undefined {
+  const giga = 10 ** 9;
+  const price = parseFloat(input);
+  if (Number.isFinite(price) && price >= 0) {
+    const priceWei = (price * giga).toFixed();
+    return BigNumber.from(priceWei);
+  }
+  return undefined;
+}
+
+export function parseAddress(input: string): string | undefined {
+  return utils.isAddress(input) ? input : undefined;
+}
+
+export function parseBigNumber(input: string): BigNumber | undefined {
+  try {
+    return BigNumber.from(input);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Parses an integer, the inputs with a fraction or any other trailing characters are invalid
+export function parseNumber(input: string): number | undefined {
+  if (!/^-?\d+$/.test(input.trim())) return undefined;
+  const num = parseInt(input);
+  return Number.isSafeInteger(num) ? num : undefined;
+}
+
+export function parseDays(input: string): number | undefined {
+  const days = parseNumber(input);
+  return days === undefined ? undefined : days * 24 * 60 * 60;
+}
+
+// Parses an ISO-8601 date, returns the UNIX timestamp in seconds
+export function parseTimestamp(input: string): number | undefined {
+  const timestamp = new Date(input).valueOf();
+  return Number.isFinite(timestamp) ? timestamp / 1000 : undefined;
+}
+
+export function parseText(input: string): string | undefined {
+  return input.length > 0 ? input : undefined;
+}
+
+// JSON numbers are accepted wherever strings are
+function parseValue<T>(value: unknown, parse: Parser<T>): T | undefined {
+  if (typeof value == "string" || typeof value == "number") {
+    return parse(value.toString());
+  }
+  return undefined;
+}
+
+function fieldError(
+  sectionPath: string,
+  field: string,
+  value: unknown,
+  type: FieldType<unknown>
+): string {
+  return `${fieldPath(sectionPath, field)}: ${JSON.stringify(value)} is not a valid ${type.name}`;
+}
+
+function fieldPath(sectionPath: string, field: string): string {
+  return sectionPath == "" ? field : sectionPath + "." + field;
+}
+
+function pickFields(values: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([field]) => fields.includes(field)));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value == "object" && value !== null && !Array.isArray(value);
+}
+
+function isFieldType(schema: FieldType<unknown> | Schema): schema is FieldType<unknown> {
+  return typeof schema.parse == "function";
+}
@@ -0,0 +1,223 @@
+import assert from "assert";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import * as path from "path";
+import { providers, utils, BaseContract, Signer } from "ethers";
+import { submitOk } from "./deploy";
+import { decodeError } from "./errors";
+
+// The progress of a single step, it's saved before the step transaction is sent
+export interface StepRecord {
+  // The nonce of the step transaction
+  nonce: number;
+  // The address of the contract deployed in the step, known before the transaction is sent
+  address?: string;
+  // Set after the transaction is sent
+  txHash?: string;
+  // Set after the transaction is successfully mined
+  blockNumber?: number;
+}
+
+// The state of a deployment, the keys are the step names
+export type DeploymentState = Record<string, StepRecord | StepValue>;
+
+// A value computed once for the whole deployment, e.g. a predicted contract address
+interface StepValue {
+  value: string;
+}
+
+interface ContractFactory<T> {
+  connect(address: string, signer: Signer): T;
+}
+
+// A deployment consisting of steps, each sending a single transaction.
+// The progress of every step is persisted in the state file, so when the deployment
+// is rerun after a failure, the completed steps are skipped.
+// When a step transaction has been sent, but the outcome hasn't been recorded,
+// on rerun the transaction effect is looked up on the chain instead of being sent again.
+// All the transactions must be sent by the deployment signer one after another.
+export class DeploymentSteps {
+  readonly signer: Signer;
+  // Undefined if the state is kept only in memory
+  readonly statePath?: string;
+  private readonly state: DeploymentState;
+  private readonly prefix: string;
+
+  constructor(signer: Signer, statePath?: string, state?: DeploymentState, prefix = "") {
+    this.signer = signer;
+    this.statePath = statePath;
+    this.state = state ?? readState(statePath);
+    this.prefix = prefix;
+  }
+
+  // Returns steps sharing the state with these steps, but with names in a separate namespace
+  scoped(scope: string): DeploymentSteps {
+    return new DeploymentSteps(this.signer, this.statePath, this.state, this.name(scope + ": "));
+  }
+
+  // Returns the record of the step or undefined if it hasn't been started
+  record(step: string): StepRecord | undefined {
+    const record = this.state[this.name(step)];
+    return record === undefined || "value" in record ? undefined : record;
+  }
+
+  isDone(step: string): boolean {
+    return this.record(step)?.blockNumber !== undefined;
+  }
+
+  // Computes the value on the first run and returns the persisted value on reruns
+  async value(step: string, compute: () => Promise<string>): Promise<string> {
+    const stored = this.state[this.name(step)];
+    if (stored !== undefined && "value" in stored) return stored.value;
+    const value = await compute();
+    this.save(step, { value });
+    return value;
+  }
+
+  // Deploys a contract unless it has been already deployed by the step.
+  // If `expectedAddress` is set, the contract must be deployed under that address.
+  async deploy<T extends BaseContract>(
+    step: string,
+    deploy: () => Promise<T>,
+    factory: ContractFactory<T>,
+    expectedAddress?: string
+  ): Promise<T> {
+    let deployed: T | undefined;
+    const record = await this.run(
+      step,
+      true,
+      async () => {
+        deployed = await deploy();
+        return deployed.deployTransaction;
+      },
+      expectedAddress
+    );
+    if (deployed !== undefined) return deployed;
+    assert(record.address !== undefined, `Step '${this.name(step)}' has no address recorded`);
+    const contract = factory.connect(record.address, this.signer);
+    if (record.txHash !== undefined) {
+      const tx = await this.provider().getTransaction(record.txHash);
+      utils.defineReadOnly(contract, "deployTransaction", tx);
+    }
+    return contract;
+  }
+
+  // Sends a transaction unless it has been already successfully sent by the step.
+  // `hasEffect` checks on the chain if the transaction effect is in place, e.g. an allowance.
+  // Without it the step can't be resumed if its transaction has been sent, but not recorded.
+  async submit(
+    step: string,
+    send: () => Promise<providers.TransactionResponse>,
+    hasEffect?: () => Promise<boolean>
+  ): Promise<StepRecord> {
+    return this.run(step, false, send, undefined, hasEffect);
+  }
+
+  // Removes the state file, should be called after the whole deployment is finished
+  finish(): void {
+    if (this.statePath !== undefined && existsSync(this.statePath)) {
+      unlinkSync(this.statePath);
+    }
+  }
+
+  private async run(
+    step: string,
+    isDeployment: boolean,
+    send: () => Promise<providers.TransactionResponse>,
+    expectedAddress?: string,
+    hasEffect?: () => Promise<boolean>
+  ): Promise<StepRecord> {
+    const started = this.record(step);
+    if (started !== undefined && (await this.resume(step, started, hasEffect))) {
+      return started;
+    }
+    const nonce = await this.signer.getTransactionCount("pending");
+    const record: StepRecord = { nonce };
+    if (isDeployment) {
+      const from = await this.signer.getAddress();
+      record.address = utils.getContractAddress({ from, nonce });
+      if (expectedAddress !== undefined && record.address != expectedAddress) {
+        throw new Error(
+          `Step '${this.name(step)}' would deploy under ${record.address} ` +
+            `instead of ${expectedAddress}, the deployment must be restarted ` +
+            "from scratch by removing its state"
+        );
+      }
+    }
+    this.save(step, record);
+    const tx = await send().catch((error) => Promise.reject(decodeError(error)));
+    if (tx.nonce != nonce) {
+      throw new Error(`Step '${this.name(step)}' sent a transaction with an unexpected nonce`);
+    }
+    record.txHash = tx.hash;
+    this.save(step, record);
+    const receipt = await submitOk(Promise.resolve(tx), this.provider());
+    record.blockNumber = receipt.blockNumber;
+    this.save(step, record);
+    return record;
+  }
+
+  // Checks the outcome of a previously started step.
+  // Returns true if the step has been completed, false if it must be run again.
+  private async resume(
+    step: string,
+    record: StepRecord,
+    hasEffect?: () => Promise<boolean>
+  ): Promise<boolean> {
+    if (record.blockNumber !== undefined) return true;
+    const provider = this.provider();
+    if (record.txHash !== undefined) {
+      if ((await provider.getTransaction(record.txHash)) != null) {
+        const receipt = await provider.waitForTransaction(record.txHash);
+        if (receipt.status != 1) return false;
+        record.blockNumber = receipt.blockNumber;
+        this.save(step, record);
+        return true;
+      }
+    }
+    // The transaction may have been sent, but the hash hasn't been recorded
+    // or the transaction has been dropped or replaced
+    const sentCount = await this.signer.getTransactionCount("pending");
+    if (sentCount <= record.nonce) return false;
+    if ((await this.signer.getTransactionCount()) <= record.nonce) {
+      throw new Error(`Step '${this.name(step)}' transaction is still pending, retry later`);
+    }
+    let done;
+    if (record.address !== undefined) {
+      done = (await provider.getCode(record.address)) != "0x";
+    } else if (hasEffect !== undefined) {
+      done = await hasEffect();
+    } else {
+      throw new Error(
+        `Step '${this.name(step)}' transaction with nonce ${record.nonce} has been sent, ` +
+          "but its outcome is unknown, check it and update the deployment state manually"
+      );
+    }
+    if (!done) return false;
+    record.blockNumber = await provider.getBlockNumber();
+    this.save(step, record);
+    return true;
+  }
+
+  private provider(): providers.Provider {
+    const provider = this.signer.provider;
+    if (provider === undefined) throw new Error("The deployment signer has no provider");
+    return provider;
+  }
+
+  private name(step: string): string {
+    return this.prefix + step;
+  }
+
+  private save(step: string, record: StepRecord | StepValue): void {
+    this.state[this.name(step)] = record;
+    if (this.statePath !== undefined) {
+      mkdirSync(path.dirname(this.statePath), { recursive: true });
+      writeFileSync(this.statePath, JSON.stringify(this.state, null, 2) + "\n");
+    }
+  }
+}
+
+function readState(statePath?: string): DeploymentState {
+  if (statePath === undefined || !existsSync(statePath)) return {};
+  return JSON.parse(readFileSync(statePath, "utf8")) as DeploymentState;
+}
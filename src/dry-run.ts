@@ -0,0 +1,140 @@
+import { constants, providers, utils, BigNumber, Signer, Wallet } from "ethers";
+import { deployRadicleToken, deployTestEns, transferEthDomain } from "./deploy";
+
+// A transaction sent by the deployer during the dry run
+export interface DryRunTransaction {
+  hash: string;
+  nonce: number;
+  // Undefined for contract deployments
+  to?: string;
+  // The address of the deployed contract
+  contractAddress?: string;
+  gasUsed: BigNumber;
+}
+
+// A contract deployed on the dry run chain in place of a contract existing on the real network
+export interface StandIn {
+  name: string;
+  original: string;
+  standIn: string;
+}
+
+export interface DryRunReport {
+  transactions: DryRunTransaction[];
+  standIns: StandIn[];
+  gasUsed: BigNumber;
+  gasPrice: BigNumber;
+  // In Wei, at `gasPrice`
+  cost: BigNumber;
+}
+
+// The gas used by a plain ether transfer
+const SEED_GAS_LIMIT = 21000;
+
+// A rehearsal of a deployment on a local chain, usually an in-process Hardhat network.
+// The deployer gets the same nonce as on the real network, so the deployed contracts
+// get the same addresses. The contracts which the deployment depends on are replaced
+// with stand-ins deployed by the funder, which must have plenty of ether on the local chain.
+export class DryRun {
+  readonly provider: providers.Provider;
+  readonly funder: Signer;
+  readonly standIns: StandIn[] = [];
+  private readonly hashes: string[] = [];
+
+  constructor(provider: providers.Provider, funder: Signer) {
+    this.provider = provider;
+    this.funder = funder;
+  }
+
+  // Connects the deployer to the local chain, funds it and sends dummy transactions
+  // until its nonce is the same as on the real network. The funding covers the exact cost
+  // of the dummy transactions, so afterwards the deployer has the requested balance.
+  // All the transactions later sent by the returned wallet are recorded.
+  async connect(signingKey: utils.SigningKey, nonce: number, balance: BigNumber): Promise<Wallet> {
+    const wallet = new RecordingWallet(signingKey, this.provider, this.hashes);
+    const seedWallet = new Wallet(signingKey, this.provider);
+    const sent = await seedWallet.getTransactionCount();
+    if (sent > nonce) {
+      throw new Error(`The deployer has already sent more than ${nonce} transactions`);
+    }
+    const gasPrice = await this.provider.getGasPrice();
+    const seedCost = gasPrice.mul(SEED_GAS_LIMIT).mul(nonce - sent);
+    const value = balance.add(seedCost);
+    await (await this.funder.sendTransaction({ to: wallet.address, value })).wait();
+    for (let seeded = sent; seeded < nonce; seeded++) {
+      const seed = { to: wallet.address, value: 0, gasPrice, gasLimit: SEED_GAS_LIMIT };
+      await (await seedWallet.sendTransaction(seed)).wait();
+    }
+    return wallet;
+  }
+
+  // Deploys an ENS stand-in, the owner gets the `<label>.eth` domain
+  async standInEns(original: string, owner: string, label: string): Promise<string> {
+    const ens = await deployTestEns(this.funder, label);
+    await transferEthDomain(ens, label, owner);
+    return this.addStandIn("ENS", original, ens.address);
+  }
+
+  // Deploys a Radicle Token stand-in, the holder gets all the tokens
+  async standInToken(original: string, holder: string): Promise<string> {
+    const token = await deployRadicleToken(this.funder, holder);
+    return this.addStandIn("ERC-20 token", original, token.address);
+  }
+
+  async report(gasPrice: BigNumber): Promise<DryRunReport> {
+    const transactions = [];
+    let gasUsed = constants.Zero;
+    for (const hash of this.hashes) {
+      const tx = await this.provider.getTransaction(hash);
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      transactions.push({
+        hash,
+        nonce: tx.nonce,
+        to: tx.to ?? undefined,
+        contractAddress: receipt.contractAddress ?? undefined,
+        gasUsed: receipt.gasUsed,
+      });
+      gasUsed = gasUsed.add(receipt.gasUsed);
+    }
+    const standIns = this.standIns;
+    return { transactions, standIns, gasUsed, gasPrice, cost: gasUsed.mul(gasPrice) };
+  }
+
+  private addStandIn(name: string, original: string, standIn: string): string {
+    this.standIns.push({ name, original, standIn });
+    return standIn;
+  }
+}
+
+export function formatDryRunReport(report: DryRunReport): string {
+  const lines = ["Dry run transactions:"];
+  for (const { nonce, to, contractAddress, gasUsed } of report.transactions) {
+    const target =
+      contractAddress === undefined ? `call to ${to ?? ""}` : `deploy ${contractAddress}`;
+    lines.push(`  nonce ${nonce}: ${target}, gas used ${gasUsed.toString()}`);
+  }
+  for (const { name, original, standIn } of report.standIns) {
+    lines.push(`The ${name} ${original} has been replaced with a stand-in ${standIn}`);
+  }
+  const gasPrice = utils.formatUnits(report.gasPrice, "gwei");
+  lines.push(`Total gas used: ${report.gasUsed.toString()}`);
+  lines.push(`Total cost at ${gasPrice} GWei: ${utils.formatEther(report.cost)} ETH`);
+  return lines.join("\n");
+}
+
+class RecordingWallet extends Wallet {
+  private readonly hashes: string[];
+
+  constructor(signingKey: utils.SigningKey, provider: providers.Provider, hashes: string[]) {
+    super(signingKey, provider);
+    this.hashes = hashes;
+  }
+
+  async sendTransaction(
+    transaction: providers.TransactionRequest
+  ): Promise<providers.TransactionResponse> {
+    const response = await super.sendTransaction(transaction);
+    this.hashes.push(response.hash);
+    return response;
+  }
+}
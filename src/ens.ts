@@ -1,6 +1,138 @@
+import { ens_normalize } from "@adraffy/ens-normalize";
 import { utils } from "ethers";
+import { Registrar } from "../contract-bindings/ethers/Registrar";
 
 // Return the hash of an ENS label as a hex string with leading `0x`.
 export function labelHash(label: string): string {
   return utils.keccak256(utils.toUtf8Bytes(label));
 }
+
+// Characters of other scripts, which look like Latin letters, and the letters they look like
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  "\u0430": "a", // а
+  "\u0432": "b", // в
+  "\u0435": "e", // е
+  "\u0456": "i", // і
+  "\u0458": "j", // ј
+  "\u043a": "k", // к
+  "\u04cf": "l", // ӏ
+  "\u043c": "m", // м
+  "\u043d": "h", // н
+  "\u043e": "o", // о
+  "\u0440": "p", // р
+  "\u0441": "c", // с
+  "\u0455": "s", // ѕ
+  "\u0442": "t", // т
+  "\u0443": "y", // у
+  "\u0445": "x", // х
+  "\u0501": "d", // ԁ
+  "\u051b": "q", // ԛ
+  "\u051d": "w", // ԝ
+  // Greek
+  "\u03b1": "a", // α
+  "\u03b9": "i", // ι
+  "\u03ba": "k", // κ
+  "\u03bd": "v", // ν
+  "\u03bf": "o", // ο
+  "\u03c1": "p", // ρ
+  "\u03c4": "t", // τ
+  "\u03c5": "u", // υ
+  "\u03c7": "x", // χ
+  // Latin
+  "\u0131": "i", // ı
+  "\u0251": "a", // ɑ
+  "\u0261": "g", // ɡ
+};
+
+// The scripts of the characters, which can be confused with each other
+const SCRIPTS = ["Latin", "Cyrillic", "Greek", "Armenian", "Cherokee"];
+
+// Normalizes a name of a subdomain following ENSIP-15, e.g. it lowercases the letters,
+// but keeps `ß` and the emoji. Throws if the normalized name can't be registered.
+// Besides the Registrar rules, only lowercase Latin letters, digits and hyphens are allowed
+// among the ASCII characters and the name can't contain dots.
+export function normalizeName(name: string): string {
+  let normalized;
+  try {
+    normalized = ens_normalize(name);
+  } catch (e) {
+    throw new Error(`Name '${name}' contains characters not allowed in ENS names`);
+  }
+  const isInvalidAscii = (char: string): boolean => char < "\x80" && !/[a-z0-9-]/.test(char);
+  if (Array.from(normalized).some(isInvalidAscii)) {
+    throw new Error(
+      `Name '${name}' is invalid, only letters, digits and hyphens are allowed in it`
+    );
+  }
+  const length = utils.toUtf8Bytes(normalized).length;
+  if (length < 2 || length > 128) {
+    throw new Error(`Name '${name}' is invalid, it must be between 2 and 128 bytes long`);
+  }
+  return normalized;
+}
+
+// Warns about the characters of the normalized name which look like other characters,
+// so the name may be used to impersonate another one. An empty list if there's nothing suspicious.
+export function nameWarnings(normalized: string): string[] {
+  const warnings = [];
+  const chars = Array.from(normalized);
+  const confusables = chars.filter((char) => char in CONFUSABLES);
+  if (confusables.length > 0) {
+    const listed = confusables.map((char) => `'${char}' (${codePoint(char)})`).join(", ");
+    const lookalike = chars.map((char) => CONFUSABLES[char] ?? char).join("");
+    warnings.push(`Name '${normalized}' looks like '${lookalike}', it contains ${listed}`);
+  }
+  const scripts = SCRIPTS.filter((script) =>
+    chars.some((char) => new RegExp(`\\p{Script=${script}}`, "u").test(char))
+  );
+  if (scripts.length > 1) {
+    warnings.push(`Name '${normalized}' mixes ${scripts.join(" and ")} scripts`);
+  }
+  return warnings;
+}
+
+// The ENS node of the name in the domain, e.g. `namehash("cloudhead.radicle.eth")`.
+// The `ethers` `namehash` normalizes the labels with IDNA 2003, so the name is hashed directly.
+export function nameNode(name: string, domainLabel = "radicle"): string {
+  const domainNode = utils.namehash(`${domainLabel}.eth`);
+  return utils.keccak256(utils.concat([domainNode, labelHash(normalizeName(name))]));
+}
+
+// The result of checking a name before its registration
+export interface NameCheck {
+  name: string;
+  valid: boolean;
+  // Set if the name is valid
+  normalized?: string;
+  // Set if the name is invalid
+  error?: string;
+  warnings: string[];
+  // Set if the name is valid
+  available?: boolean;
+}
+
+// Checks the names, the availability of all the valid ones is queried concurrently
+export async function checkNames(registrar: Registrar, names: string[]): Promise<NameCheck[]> {
+  return Promise.all(
+    names.map(async (name) => {
+      let normalized;
+      try {
+        normalized = normalizeName(name);
+      } catch (e) {
+        return { name, valid: false, error: (e as Error).message, warnings: [] };
+      }
+      const warnings = nameWarnings(normalized);
+      const available = await registrar.available(normalized);
+      return { name, valid: true, normalized, warnings, available };
+    })
+  );
+}
+
+function codePoint(char: string): string {
+  const code = char.codePointAt(0);
+  if (code === undefined) {
+    throw new Error("No code point in an empty string");
+  }
+  return "U+" + code.toString(16).toUpperCase().padStart(4, "0");
+}
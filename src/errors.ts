@@ -0,0 +1,237 @@
+import { providers, utils } from "ethers";
+import { ProxyFailureEvent } from "./proxy";
+
+// A transaction or a call rejected by a contract
+export class ContractError extends Error {
+  // The revert reason, undefined if it couldn't be recovered
+  readonly reason?: string;
+  // The contract and the function from a reason like `Registrar::register: invalid name`
+  readonly contract?: string;
+  readonly method?: string;
+  // The original error
+  readonly cause?: unknown;
+
+  constructor(message: string, reason?: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.reason = reason;
+    this.cause = cause;
+    const match = reason === undefined ? null : /^(\w+)(?:::(\w+))?: /.exec(reason);
+    this.contract = match?.[1];
+    this.method = match?.[2];
+  }
+}
+
+export class RegistrarError extends ContractError {}
+export class PoolError extends ContractError {}
+export class GovernorError extends ContractError {}
+export class TimelockError extends ContractError {}
+export class RadicleTokenError extends ContractError {}
+export class VestingTokenError extends ContractError {}
+export class Phase0Error extends ContractError {}
+
+// A `Proxy` admin function failure, reported with a `Failure` event or a revert
+export class ProxyFailure extends ContractError {
+  // The `Failure` events emitted by the proxy, empty if the proxy has reverted
+  readonly failures: ProxyFailureEvent[];
+
+  constructor(
+    message: string,
+    reason?: string,
+    cause?: unknown,
+    failures: ProxyFailureEvent[] = []
+  ) {
+    super(message, reason, cause);
+    this.failures = failures;
+  }
+}
+
+type ContractErrorType = new (message: string, reason?: string, cause?: unknown) => ContractError;
+
+// The errors of the reasons prefixed with the contract name, e.g. `Governor::queue: ...`
+const PREFIXED_ERRORS: Record<string, ContractErrorType> = {
+  Commitments: RegistrarError,
+  Governor: GovernorError,
+  Proxy: ProxyFailure,
+  RadicleToken: RadicleTokenError,
+  Registrar: RegistrarError,
+  Timelock: TimelockError,
+  VestingToken: VestingTokenError,
+};
+
+// The errors of the reasons not prefixed with the contract name
+const UNPREFIXED_ERRORS: [ContractErrorType, string[]][] = [
+  [
+    PoolError,
+    [
+      "Not enough funds in the sender account",
+      "Proxy doesn't exist",
+      "Proxy doesn't have the constant weight sum",
+      "Proxy weight not a multiple of PROXY_WEIGHTS_SUM",
+      "Too many proxy receivers",
+      "Too many receivers",
+      "Too much total receivers weight",
+      "Invalid receiver address",
+      "Invalid cycle number",
+    ],
+  ],
+  [
+    VestingTokenError,
+    [
+      "Beneficiary cannot be the zero address",
+      "Only beneficiary can do this",
+      "Only owner can do this",
+      "The contract has been interrupted",
+      "Vesting period must be positive",
+      "Vesting start time must be in the past",
+    ],
+  ],
+  [
+    Phase0Error,
+    [
+      "All tokens are allocated",
+      "Governor deployed under an unexpected address",
+      "Factory contract address starts with 0 byte, " +
+        "please make any transaction and rerun deployment",
+    ],
+  ],
+];
+
+// What to do about the common failures
+const REVERT_HINTS: Record<string, string> = {
+  "Registrar: only the admin can perform this action": "Send it from the registrar admin.",
+  "Registrar::commit: already commited": "The commitment is already made, register the name.",
+  "Registrar::commitBySig: invalid nonce": "Sign the commitment with the current nonce.",
+  "Registrar::commitBySig: signature expired": "Sign the commitment with a later deadline.",
+  "Registrar::register: commitment too new":
+    "Wait until the commitment is at least `minCommitmentAge` blocks old.",
+  "Registrar::register: invalid name": "Normalize the name with `normalizeName` first.",
+  "Registrar::register: must commit before registration": "Commit to the registration first.",
+  "Registrar::register: name has already been registered": "Choose another name.",
+  "Governor::propose: proposal function information arity mismatch":
+    "Every action needs a target, a value, a signature and calldata.",
+  "Governor::propose: proposer votes below proposal threshold":
+    "Delegate more votes to the proposer.",
+  "Governor::propose: one live proposal per proposer, found an already active proposal":
+    "Wait until the voting on the previous proposal ends.",
+  "Governor::propose: one live proposal per proposer, found an already pending proposal":
+    "Wait until the voting on the previous proposal ends.",
+  "Governor::queue: proposal can only be queued if it is succeeded":
+    "Check the proposal status, only the succeeded proposals can be queued.",
+  "Governor::execute: proposal can only be executed if it is queued": "Queue the proposal first.",
+  "Governor::_castVote: voting is closed": "Check the voting period of the proposal.",
+  "Timelock::executeTransaction: Transaction hasn't surpassed time lock.":
+    "Wait until the proposal ETA.",
+  "Timelock::executeTransaction: Transaction is stale.":
+    "The grace period has passed, the proposal must be made again.",
+  "Not enough funds in the sender account": "Top up the sender or withdraw less.",
+  "Proxy: admin cannot fallback to proxy target": "Call the implementation from another account.",
+};
+
+const ERROR_SELECTOR = utils.id("Error(string)").slice(0, 10);
+
+// Builds the error of the contract which has reverted with the reason
+export function contractError(reason: string, cause?: unknown): ContractError {
+  const prefix = /^(\w+):/.exec(reason)?.[1];
+  const unprefixed = UNPREFIXED_ERRORS.find(([, reasons]) => reasons.includes(reason));
+  const errorType =
+    (prefix !== undefined ? PREFIXED_ERRORS[prefix] : undefined) ??
+    unprefixed?.[0] ??
+    ContractError;
+  const hint = REVERT_HINTS[reason];
+  const message = hint === undefined ? reason : `${reason.replace(/\.$/, "")}. ${hint}`;
+  return new errorType(message, reason, cause);
+}
+
+// Decodes the `Error(string)` revert data, returns undefined if it's not one
+export function decodeRevertData(data: string): string | undefined {
+  if (!utils.isHexString(data) || !data.startsWith(ERROR_SELECTOR)) return undefined;
+  try {
+    const [reason] = utils.defaultAbiCoder.decode(["string"], utils.hexDataSlice(data, 4));
+    return reason as string;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Finds the revert reason in an error thrown by ethers, the JSON-RPC providers or Hardhat
+export function revertReason(error: unknown): string | undefined {
+  if (error instanceof ContractError) return error.reason;
+  if (typeof error == "string") return reasonFromMessage(error);
+  if (typeof error != "object" || error === null) return undefined;
+  const fields = error as Record<string, unknown>;
+  if (typeof fields.data == "string") {
+    const reason = decodeRevertData(fields.data);
+    if (reason !== undefined) return reason;
+  }
+  if (typeof fields.body == "string") {
+    try {
+      const reason = revertReason((JSON.parse(fields.body) as Record<string, unknown>).error);
+      if (reason !== undefined) return reason;
+    } catch (e) {
+      // The body isn't a JSON-RPC response
+    }
+  }
+  for (const nested of [fields.error, fields.message]) {
+    const reason = revertReason(nested);
+    if (reason !== undefined) return reason;
+  }
+  return undefined;
+}
+
+// Converts the error into a `ContractError` if it's a revert with a known reason
+export function decodeError(error: unknown): unknown {
+  if (error instanceof ContractError) return error;
+  const reason = revertReason(error);
+  return reason === undefined ? error : contractError(reason, error);
+}
+
+// The message of the decoded error, which can be shown to the user
+export function errorMessage(error: unknown): string {
+  const decoded = decodeError(error);
+  return decoded instanceof Error ? decoded.message : String(decoded);
+}
+
+// Replays the transaction mined in the block as a call to recover its revert reason.
+// It's called on the state from before the block, so the result may differ
+// if the transaction depended on the earlier transactions from the same block.
+// Returns undefined if the call succeeds or the reason can't be recovered.
+export async function simulateTransaction(
+  provider: providers.Provider,
+  tx: Pick<providers.TransactionRequest, "from" | "to" | "data" | "value" | "gasLimit">,
+  blockNumber?: number
+): Promise<string | undefined> {
+  const { from, to, data, value, gasLimit } = tx;
+  const blockTag = blockNumber === undefined ? "latest" : blockNumber - 1;
+  try {
+    const result = await provider.call({ from, to, data, value, gasLimit }, blockTag);
+    return decodeRevertData(result);
+  } catch (e) {
+    return revertReason(e);
+  }
+}
+
+// Builds the error of the transaction which has been mined in the block, but has failed
+export async function transactionError(
+  provider: providers.Provider,
+  tx: providers.TransactionResponse,
+  blockNumber: number,
+  cause?: unknown
+): Promise<ContractError> {
+  const reason = revertReason(cause) ?? (await simulateTransaction(provider, tx, blockNumber));
+  if (reason !== undefined) return contractError(reason, cause);
+  return new ContractError(`Transaction ${tx.hash} has failed without a reason`, undefined, cause);
+}
+
+function reasonFromMessage(message: string): string | undefined {
+  const patterns = [
+    /VM Exception while processing transaction: revert (.*)$/s,
+    /reverted with reason string '(.*)'$/s,
+    /execution reverted: (.*)$/s,
+  ];
+  for (const pattern of patterns) {
+    const match = pattern.exec(message);
+    if (match !== null) return match[1];
+  }
+  return undefined;
+}
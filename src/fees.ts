@@ -0,0 +1,76 @@
+import { providers, utils, BigNumber } from "ethers";
+
+// The fees of the type 2 transactions, see EIP-1559
+export interface Eip1559Fees {
+  maxFeePerGas: BigNumber;
+  maxPriorityFeePerGas: BigNumber;
+}
+
+// The fee of the legacy transactions, used on the networks without EIP-1559
+export interface LegacyFees {
+  gasPrice: BigNumber;
+}
+
+export type Fees = Eip1559Fees | LegacyFees;
+
+export function isLegacy(fees: Fees): fees is LegacyFees {
+  return "gasPrice" in fees;
+}
+
+// The most which can be paid per gas unit
+export function maxGasPrice(fees: Fees): BigNumber {
+  return isLegacy(fees) ? fees.gasPrice : fees.maxFeePerGas;
+}
+
+export function formatFees(fees: Fees): string {
+  const gwei = (fee: BigNumber): string => `${utils.formatUnits(fee, "gwei")} GWei`;
+  if (isLegacy(fees)) return `gas price ${gwei(fees.gasPrice)}`;
+  const { maxFeePerGas, maxPriorityFeePerGas } = fees;
+  return `max fee ${gwei(maxFeePerGas)}, max priority fee ${gwei(maxPriorityFeePerGas)}`;
+}
+
+interface FeeHistory {
+  baseFeePerGas: string[];
+  reward?: string[][];
+}
+
+// Suggests the fees from the `eth_feeHistory` of the recent blocks.
+// The priority fee is the median of the priority fees paid in the blocks at the given percentile.
+// The max fee lets the base fee of the next block double and still pays the priority fee.
+// Throws if the network doesn't support EIP-1559.
+export async function suggestFees(
+  provider: providers.JsonRpcProvider,
+  blocks = 10,
+  percentile = 50
+): Promise<Eip1559Fees> {
+  const history = (await provider.send("eth_feeHistory", [
+    utils.hexValue(blocks),
+    "latest",
+    [percentile],
+  ])) as FeeHistory;
+  const baseFees = history.baseFeePerGas ?? [];
+  const nextBaseFee = baseFees[baseFees.length - 1];
+  if (nextBaseFee === undefined || history.reward === undefined) {
+    throw new Error("The network doesn't report the fee history");
+  }
+  const rewards = history.reward
+    .map(([reward]) => BigNumber.from(reward))
+    .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  const maxPriorityFeePerGas = rewards[Math.floor(rewards.length / 2)] ?? BigNumber.from(0);
+  const maxFeePerGas = BigNumber.from(nextBaseFee).mul(2).add(maxPriorityFeePerGas);
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Makes all the transactions signed by the signers connected to the provider use the fees,
+// unless a transaction sets its own. The type 2 transactions are used with the EIP-1559 fees.
+export function useFees(provider: providers.Provider, fees: Fees): void {
+  const { gasPrice, maxFeePerGas, maxPriorityFeePerGas } = {
+    gasPrice: null,
+    maxFeePerGas: null,
+    maxPriorityFeePerGas: null,
+    ...fees,
+  };
+  provider.getFeeData = (): Promise<providers.FeeData> =>
+    Promise.resolve({ gasPrice, maxFeePerGas, maxPriorityFeePerGas, lastBaseFeePerGas: null });
+  provider.getGasPrice = (): Promise<BigNumber> => Promise.resolve(maxGasPrice(fees));
+}
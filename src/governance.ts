@@ -0,0 +1,283 @@
+import {
+  utils,
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  Overrides,
+  PopulatedTransaction,
+} from "ethers";
+import { Governor } from "../contract-bindings/ethers/Governor";
+import { TimelockInterface } from "../contract-bindings/ethers/TimelockInterface";
+import { TimelockInterface__factory } from "../contract-bindings/ethers";
+import { readFileSync } from "fs";
+import { contractInterface, isContractType } from "./address-book";
+import { submitOk } from "./deploy";
+
+// Same as the Governor contract `ProposalState`
+export enum ProposalState {
+  Pending,
+  Active,
+  Canceled,
+  Defeated,
+  Succeeded,
+  Queued,
+  Expired,
+  Executed,
+}
+
+// A single call made by the timelock when a proposal is executed
+export interface ProposalAction {
+  target: string;
+  value: BigNumber;
+  // The function signature, e.g. `transfer(address,uint256)`
+  signature: string;
+  // The ABI-encoded function arguments without the function selector
+  calldata: string;
+}
+
+export interface ProposalStatus {
+  state: ProposalState;
+  startBlock: number;
+  endBlock: number;
+  // The timestamp since which the proposal can be executed, undefined if it isn't queued
+  eta?: number;
+  // The timestamp since which the queued proposal can't be executed anymore
+  expiresAt?: number;
+}
+
+// Builds the list of actions of a proposal
+export class ProposalBuilder {
+  private readonly actions: ProposalAction[] = [];
+
+  // Adds a call populated by a typechain contract, e.g.
+  // `builder.addCall(token, await token.populateTransaction.transfer(receiver, amount))`
+  addCall(contract: BaseContract, tx: PopulatedTransaction): this {
+    const data = tx.data ?? "0x";
+    const fragment = contract.interface.getFunction(utils.hexDataSlice(data, 0, 4));
+    return this.addAction({
+      target: tx.to ?? contract.address,
+      value: BigNumber.from(tx.value ?? 0),
+      signature: fragment.format(),
+      calldata: utils.hexDataSlice(data, 4),
+    });
+  }
+
+  // Adds a call of a function described by the interface, the arguments are ABI-encoded
+  addFunctionCall(
+    target: string,
+    contractInterface: utils.Interface,
+    functionName: string,
+    args: unknown[],
+    value: BigNumberish = 0
+  ): this {
+    const data = contractInterface.encodeFunctionData(functionName, args);
+    return this.addAction({
+      target,
+      value: BigNumber.from(value),
+      signature: contractInterface.getFunction(functionName).format(),
+      calldata: utils.hexDataSlice(data, 4),
+    });
+  }
+
+  addAction(action: ProposalAction): this {
+    this.actions.push({ ...action, target: utils.getAddress(action.target) });
+    return this;
+  }
+
+  build(): ProposalAction[] {
+    return [...this.actions];
+  }
+}
+
+// A client of the Governor contract covering the whole lifecycle of proposals.
+// Each transaction is preceded by a check if it can succeed, so it fails early with a clear error.
+export class GovernanceClient {
+  readonly governor: Governor;
+
+  constructor(governor: Governor) {
+    this.governor = governor;
+  }
+
+  // Submits a proposal, returns its ID
+  async propose(
+    actions: ProposalAction[],
+    description: string,
+    overrides: Overrides = {}
+  ): Promise<number> {
+    if (actions.length == 0) throw new Error("Proposal must provide actions");
+    const maxOperations = await this.governor.proposalMaxOperations();
+    if (maxOperations.lt(actions.length)) {
+      throw new Error(`Too many actions, the limit is ${maxOperations.toString()}`);
+    }
+    const receipt = await submitOk(
+      this.governor.propose(
+        actions.map((action) => action.target),
+        actions.map((action) => action.value),
+        actions.map((action) => action.signature),
+        actions.map((action) => action.calldata),
+        description,
+        overrides
+      ),
+      this.governor.provider
+    );
+    const created = receipt.events?.find((event) => event.event == "ProposalCreated");
+    if (created?.args === undefined) throw new Error("No ProposalCreated event emitted");
+    return BigNumber.from(created.args.id).toNumber();
+  }
+
+  async state(proposalId: number): Promise<ProposalState> {
+    return this.governor.state(proposalId);
+  }
+
+  async status(proposalId: number): Promise<ProposalStatus> {
+    const state = await this.state(proposalId);
+    const proposal = await this.governor.proposals(proposalId);
+    const status = {
+      state,
+      startBlock: proposal.startBlock.toNumber(),
+      endBlock: proposal.endBlock.toNumber(),
+    };
+    if (proposal.eta.isZero()) return status;
+    const gracePeriod = await (await this.timelock()).gracePeriod();
+    const eta = proposal.eta.toNumber();
+    return { ...status, eta, expiresAt: eta + gracePeriod.toNumber() };
+  }
+
+  async actions(proposalId: number): Promise<ProposalAction[]> {
+    // The `values` field is shadowed by `Array.prototype.values`, so the result is destructured
+    const [targets, values, signatures, calldatas] = await this.governor.getActions(proposalId);
+    return targets.map((target, idx) => ({
+      target,
+      value: values[idx],
+      signature: signatures[idx],
+      calldata: calldatas[idx],
+    }));
+  }
+
+  // Queues the succeeded proposal in the timelock, returns the ETA of its execution
+  async queue(proposalId: number, overrides: Overrides = {}): Promise<number> {
+    await this.expectState(proposalId, ProposalState.Succeeded, "queued");
+    await submitOk(this.governor.queue(proposalId, overrides), this.governor.provider);
+    const { eta } = await this.governor.proposals(proposalId);
+    return eta.toNumber();
+  }
+
+  // Executes the queued proposal after its ETA and before it expires
+  async execute(proposalId: number, overrides: Overrides = {}): Promise<ContractReceipt> {
+    await this.expectState(proposalId, ProposalState.Queued, "executed");
+    const { eta } = await this.status(proposalId);
+    const now = (await this.governor.provider.getBlock("latest")).timestamp;
+    // The transaction will be included in a future block, which will have a greater timestamp
+    if (eta !== undefined && now + 1 < eta) {
+      throw new Error(`Proposal ${proposalId} can't be executed before ${formatTime(eta)}`);
+    }
+    return submitOk(this.governor.execute(proposalId, overrides), this.governor.provider);
+  }
+
+  private async expectState(
+    proposalId: number,
+    expected: ProposalState,
+    action: string
+  ): Promise<void> {
+    const state = await this.state(proposalId);
+    if (state != expected) {
+      throw new Error(
+        `Proposal ${proposalId} can be ${action} only if it's ${ProposalState[expected]}, ` +
+          `but it's ${ProposalState[state]}`
+      );
+    }
+  }
+
+  private async timelock(): Promise<TimelockInterface> {
+    const timelockAddr = await this.governor.timelock();
+    return TimelockInterface__factory.connect(timelockAddr, this.governor.provider);
+  }
+}
+
+export interface Proposal {
+  description: string;
+  actions: ProposalAction[];
+}
+
+// Reads a proposal from a JSON file with the structure:
+// `{ "description": "…", "actions": [{ "contract": "RadicleToken", "target": "0x…",
+// "function": "transfer", "args": ["0x…", "100"], "value": "0" }] }`.
+// The contract is the name of a contract type from the address book, its ABI is used to encode
+// the arguments. The value is in Wei and it's optional.
+export function readProposalFile(filePath: string): Proposal {
+  const invalid = (reason: string): Error =>
+    new Error(`Invalid proposal file ${filePath}: ${reason}`);
+  const proposal = JSON.parse(readFileSync(filePath, "utf8")) as unknown;
+  if (!isObject(proposal)) throw invalid("not a JSON object");
+  const { description, actions } = proposal;
+  if (typeof description != "string" || description == "") throw invalid("no description");
+  if (!Array.isArray(actions)) throw invalid("no actions list");
+  const builder = new ProposalBuilder();
+  actions.forEach((action: unknown, idx) => {
+    if (!isObject(action)) throw invalid(`action ${idx} is not an object`);
+    const { contract, target, args, value } = action;
+    const functionName = action.function;
+    if (typeof contract != "string" || !isContractType(contract)) {
+      throw invalid(`action ${idx} has an unknown contract ${String(contract)}`);
+    }
+    if (typeof target != "string" || !utils.isAddress(target)) {
+      throw invalid(`action ${idx} has an invalid target ${String(target)}`);
+    }
+    if (typeof functionName != "string") throw invalid(`action ${idx} has no function`);
+    if (!Array.isArray(args)) throw invalid(`action ${idx} has no arguments list`);
+    try {
+      const callValue = BigNumber.from(value ?? 0);
+      builder.addFunctionCall(target, contractInterface(contract), functionName, args, callValue);
+    } catch (e) {
+      throw invalid(`action ${idx} can't be encoded: ${String(e)}`);
+    }
+  });
+  return { description, actions: builder.build() };
+}
+
+// Decodes the actions into a human-readable form, one action per line, e.g.
+// `1. 0x1234…: transfer(address: 0x5678…, uint256: 100)`.
+// The names are used instead of the addresses of the known contracts.
+export function formatActions(
+  actions: ProposalAction[],
+  names: Map<string, string> = new Map<string, string>()
+): string {
+  return actions
+    .map(({ target, value, signature, calldata }, idx) => {
+      const targetName = names.get(utils.getAddress(target)) ?? target;
+      const valueText = value.isZero() ? "" : ` with ${utils.formatEther(value)} ETH`;
+      return `${idx + 1}. ${targetName}: ${formatCall(signature, calldata)}${valueText}`;
+    })
+    .join("\n");
+}
+
+function formatCall(signature: string, calldata: string): string {
+  if (signature == "") return "raw call " + calldata;
+  const fragment = utils.FunctionFragment.from(signature);
+  let args: utils.Result;
+  try {
+    args = utils.defaultAbiCoder.decode(fragment.inputs, calldata);
+  } catch (e) {
+    return `${signature} with undecodable calldata ${calldata}`;
+  }
+  const formatted = fragment.inputs.map((input, idx) => {
+    const name = input.name ? " " + input.name : "";
+    return `${input.type}${name}: ${formatArg(args[idx])}`;
+  });
+  return `${fragment.name}(${formatted.join(", ")})`;
+}
+
+function formatArg(arg: unknown): string {
+  if (Array.isArray(arg)) return "[" + arg.map(formatArg).join(", ") + "]";
+  if (BigNumber.isBigNumber(arg)) return arg.toString();
+  return String(arg);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value == "object" && value !== null && !Array.isArray(value);
+}
+
+export function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
@@ -1,2 +1,44 @@
+export * from "./address-book";
+export * from "./attestations";
+export * from "./claims";
+export * from "./claims-indexer";
 export * from "./deploy";
-export { daiPermitDigest } from "./utils";
+export * from "./deployment-steps";
+export * from "./dry-run";
+export * from "./ens";
+export * from "./errors";
+export * from "./fees";
+export * from "./networks";
+export * from "./governance";
+export * from "./pool";
+export * from "./pool-indexer";
+export * from "./pool-simulator";
+export * from "./proxy";
+export * from "./registrar";
+export * from "./registrar-proposals";
+export * from "./relayer";
+export * from "./safe-batch";
+export * from "./signers";
+export * from "./storage-layout";
+export {
+  ballotTypedData,
+  commitTypedData,
+  daiPermitDigest,
+  delegationTypedData,
+  permitTypedData,
+  recoverCommitBySigSigner,
+  recoverPermitSigner,
+  recoverTypedDataSigner,
+  signCommitBySig,
+  signCommitBySigWithPermit,
+  signPermit,
+  signTypedData,
+  typedDataDigest,
+  CommitBySigArgs,
+  CommitBySigWithPermitArgs,
+  PermitArgs,
+  TypedData,
+  TypedDataSigner,
+} from "./utils";
+export * from "./vesting-batch";
+export * from "./vesting-schedule";
@@ -0,0 +1,56 @@
+import { providers, BigNumber } from "ethers";
+
+const INFURA_ID = "de5e2a8780c04964950e73b696d1bfb1";
+
+// A network which can be deployed to
+export interface NetworkProfile {
+  // The name under which the network's address book is stored
+  name: string;
+  // The chain ID which the RPC endpoint must report
+  chainId: number;
+  rpcUrl: string;
+}
+
+// The networks known by name, other networks need the RPC URL and the chain ID
+export const NETWORK_PROFILES: NetworkProfile[] = [
+  { name: "mainnet", chainId: 1, rpcUrl: `https://mainnet.infura.io/v3/${INFURA_ID}` },
+  { name: "goerli", chainId: 5, rpcUrl: `https://goerli.infura.io/v3/${INFURA_ID}` },
+  { name: "sepolia", chainId: 11155111, rpcUrl: `https://sepolia.infura.io/v3/${INFURA_ID}` },
+  // A local Hardhat or Anvil node
+  { name: "localhost", chainId: 31337, rpcUrl: "http://127.0.0.1:8545" },
+];
+
+export function findNetworkProfile(name: string): NetworkProfile | undefined {
+  return NETWORK_PROFILES.find((profile) => profile.name == name);
+}
+
+// Builds the profile of the network, the RPC URL and the chain ID override the known profile.
+// Throws if the network is unknown and the RPC URL or the chain ID is missing
+// or if the chain ID is different from the one of the known network.
+export function networkProfile(name: string, rpcUrl?: string, chainId?: number): NetworkProfile {
+  const known = findNetworkProfile(name);
+  if (known !== undefined && chainId !== undefined && chainId != known.chainId) {
+    throw new Error(`The network ${name} has chain ID ${known.chainId}, not ${chainId}`);
+  }
+  const url = rpcUrl ?? known?.rpcUrl;
+  const id = chainId ?? known?.chainId;
+  if (url === undefined || id === undefined) {
+    throw new Error(`The network ${name} is unknown, its RPC URL and chain ID are needed`);
+  }
+  return { name, chainId: id, rpcUrl: url };
+}
+
+// Connects to the network's RPC endpoint.
+// Throws if the endpoint reports a different chain ID than the profile.
+export async function connectNetwork(profile: NetworkProfile): Promise<providers.JsonRpcProvider> {
+  const { name, chainId, rpcUrl } = profile;
+  const provider = new providers.StaticJsonRpcProvider(rpcUrl, { name, chainId });
+  const actualChainId = BigNumber.from(await provider.send("eth_chainId", [])).toNumber();
+  if (actualChainId != chainId) {
+    throw new Error(
+      `The RPC endpoint ${rpcUrl} is on the chain ${actualChainId}, ` +
+        `but the network ${name} has chain ID ${chainId}`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,334 @@
+import { providers, BigNumber, constants, Event } from "ethers";
+import { Pool } from "../contract-bindings/ethers/Pool";
+import { Pool__factory } from "../contract-bindings/ethers";
+import { ReceiverWeight } from "./pool";
+
+// A stream of funds from a sender to a receiver or a proxy
+export interface PoolStream {
+  sender: string;
+  receiver: string;
+  amtPerSec: BigNumber;
+  // The timestamp of the block in which the stream has been started
+  startTime: number;
+  // The timestamp when the funds stop being sent
+  endTime: BigNumber;
+}
+
+export interface PoolSenderInfo {
+  balance: BigNumber;
+  amtPerSec: BigNumber;
+  // The timestamp of the block in which the sender has been last updated
+  updateTime: number;
+}
+
+// The state of the pool reconstructed from the events up to and including a block
+export interface PoolIndexerState {
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;
+  // The keys are `sender:receiver`
+  receiverStreams: Map<string, PoolStream>;
+  // The keys are `sender:proxy`
+  proxyStreams: Map<string, PoolStream>;
+  // The keys are the proxies, the values are the receivers and their weights
+  proxyWeights: Map<string, Map<string, number>>;
+  senders: Map<string, PoolSenderInfo>;
+  collected: Map<string, BigNumber>;
+}
+
+// Persistence of the indexer state snapshots, which the indexer rolls back to on reorgs
+export interface PoolIndexerStorage {
+  // Returns all the stored checkpoints sorted by the block number, the oldest first
+  loadCheckpoints(): Promise<PoolIndexerState[]>;
+  saveCheckpoint(checkpoint: PoolIndexerState): Promise<void>;
+  // Removes all the checkpoints of blocks newer than the given one
+  removeCheckpointsAfter(blockNumber: number): Promise<void>;
+  // Removes all the checkpoints except of the given number of the newest ones
+  pruneCheckpoints(keep: number): Promise<void>;
+}
+
+export class InMemoryPoolIndexerStorage implements PoolIndexerStorage {
+  private checkpoints: PoolIndexerState[] = [];
+
+  loadCheckpoints(): Promise<PoolIndexerState[]> {
+    return Promise.resolve(this.checkpoints.map(cloneState));
+  }
+
+  saveCheckpoint(checkpoint: PoolIndexerState): Promise<void> {
+    this.checkpoints.push(cloneState(checkpoint));
+    return Promise.resolve();
+  }
+
+  removeCheckpointsAfter(blockNumber: number): Promise<void> {
+    this.checkpoints = this.checkpoints.filter(
+      (checkpoint) => checkpoint.blockNumber <= blockNumber
+    );
+    return Promise.resolve();
+  }
+
+  pruneCheckpoints(keep: number): Promise<void> {
+    this.checkpoints = this.checkpoints.slice(-keep);
+    return Promise.resolve();
+  }
+}
+
+export interface PoolIndexerOptions {
+  storage?: PoolIndexerStorage;
+  // The maximum number of blocks queried for events at once
+  blockRange?: number;
+  // The number of the newest checkpoints kept for rolling back on reorgs
+  maxCheckpoints?: number;
+  // The number of the newest blocks not indexed, because they may be reorged
+  confirmations?: number;
+}
+
+// An event and a function applying it on the state given the event block timestamp
+type AppliedEvent = [Event, (timestamp: number) => void];
+
+// Rebuilds the state of the funding pool streams by replaying the pool events.
+// After every synchronization step a checkpoint is stored.
+// Before each synchronization the newest checkpoint whose block is still on the chain
+// is restored, so all the changes from the reorged blocks are discarded.
+export class PoolIndexer {
+  readonly pool: Pool;
+  readonly startBlock: number;
+  private readonly storage: PoolIndexerStorage;
+  private readonly blockRange: number;
+  private readonly maxCheckpoints: number;
+  private readonly confirmations: number;
+  private state: PoolIndexerState;
+
+  constructor(
+    provider: providers.Provider,
+    poolAddr: string,
+    startBlock: number,
+    options: PoolIndexerOptions = {}
+  ) {
+    this.pool = Pool__factory.connect(poolAddr, provider);
+    this.startBlock = startBlock;
+    this.storage = options.storage ?? new InMemoryPoolIndexerStorage();
+    this.blockRange = options.blockRange ?? 1000;
+    this.maxCheckpoints = options.maxCheckpoints ?? 100;
+    this.confirmations = options.confirmations ?? 0;
+    this.state = initialState(startBlock - 1);
+  }
+
+  // Indexes all the events up to the given block or the latest confirmed one.
+  // Returns the number of the last indexed block.
+  async sync(toBlock?: number): Promise<number> {
+    await this.rollBackReorged();
+    const provider = this.pool.provider;
+    // `getBlockNumber` never decreases, even if the chain has been reorged to a shorter one
+    const latestBlock = (await provider.getBlock("latest")).number - this.confirmations;
+    const targetBlock = Math.min(toBlock ?? latestBlock, latestBlock);
+    while (this.state.blockNumber < targetBlock) {
+      const fromBlock = this.state.blockNumber + 1;
+      const chunkEnd = Math.min(fromBlock + this.blockRange - 1, targetBlock);
+      const events = await this.queryEvents(fromBlock, chunkEnd);
+      const timestamps = new Map<number, number>();
+      for (const [event] of events) {
+        if (!timestamps.has(event.blockNumber)) {
+          timestamps.set(event.blockNumber, (await event.getBlock()).timestamp);
+        }
+      }
+      const block = await provider.getBlock(chunkEnd);
+      // The chain has been reorged during the synchronization, it will be rolled back next time
+      if (block == null) break;
+      for (const [event, applyEvent] of events) {
+        applyEvent(timestamps.get(event.blockNumber) ?? block.timestamp);
+      }
+      this.state.blockNumber = block.number;
+      this.state.blockHash = block.hash;
+      this.state.blockTimestamp = block.timestamp;
+      await this.storage.saveCheckpoint(this.state);
+      await this.storage.pruneCheckpoints(this.maxCheckpoints);
+    }
+    return this.state.blockNumber;
+  }
+
+  lastIndexedBlock(): number {
+    return this.state.blockNumber;
+  }
+
+  // The streams from senders directly to receivers.
+  // By default only the streams active on the last indexed block are returned.
+  receiverStreams(timestamp: number = this.state.blockTimestamp): PoolStream[] {
+    return activeStreams(this.state.receiverStreams, timestamp);
+  }
+
+  // The streams from senders to proxies.
+  // By default only the streams active on the last indexed block are returned.
+  proxyStreams(timestamp: number = this.state.blockTimestamp): PoolStream[] {
+    return activeStreams(this.state.proxyStreams, timestamp);
+  }
+
+  streamsFromSender(sender: string, timestamp?: number): PoolStream[] {
+    return this.receiverStreams(timestamp)
+      .concat(this.proxyStreams(timestamp))
+      .filter((stream) => stream.sender == sender);
+  }
+
+  streamsToReceiver(receiver: string, timestamp?: number): PoolStream[] {
+    return this.receiverStreams(timestamp).filter((stream) => stream.receiver == receiver);
+  }
+
+  proxyReceivers(proxy: string): ReceiverWeight[] {
+    const weights = this.state.proxyWeights.get(proxy) ?? new Map<string, number>();
+    return Array.from(weights, ([receiver, weight]) => ({ receiver, weight }));
+  }
+
+  // The proxies which have the receiver on their receivers lists
+  receiverProxies(receiver: string): string[] {
+    return Array.from(this.state.proxyWeights)
+      .filter(([, weights]) => weights.has(receiver))
+      .map(([proxy]) => proxy);
+  }
+
+  sender(sender: string): PoolSenderInfo | undefined {
+    return this.state.senders.get(sender);
+  }
+
+  // The total amount collected by the receiver
+  collected(receiver: string): BigNumber {
+    return this.state.collected.get(receiver) ?? constants.Zero;
+  }
+
+  private async rollBackReorged(): Promise<void> {
+    const checkpoints = await this.storage.loadCheckpoints();
+    for (const checkpoint of checkpoints.reverse()) {
+      const block = await this.pool.provider.getBlock(checkpoint.blockNumber);
+      if (block != null && block.hash == checkpoint.blockHash) {
+        await this.storage.removeCheckpointsAfter(checkpoint.blockNumber);
+        this.state = checkpoint;
+        return;
+      }
+    }
+    await this.storage.removeCheckpointsAfter(this.startBlock - 1);
+    this.state = initialState(this.startBlock - 1);
+  }
+
+  // Returns the events sorted in the order of emission, each with a function applying it
+  private async queryEvents(fromBlock: number, toBlock: number): Promise<AppliedEvent[]> {
+    const pool = this.pool;
+    const filters = pool.filters;
+    const receiverEvents = await pool.queryFilter(
+      filters.SenderToReceiverUpdated(null, null, null, null),
+      fromBlock,
+      toBlock
+    );
+    const proxyEvents = await pool.queryFilter(
+      filters.SenderToProxyUpdated(null, null, null, null),
+      fromBlock,
+      toBlock
+    );
+    const proxyWeightsEvents = await pool.queryFilter(
+      filters.ProxyToReceiverUpdated(null, null, null),
+      fromBlock,
+      toBlock
+    );
+    const senderEvents = await pool.queryFilter(
+      filters.SenderUpdated(null, null, null),
+      fromBlock,
+      toBlock
+    );
+    const collectedEvents = await pool.queryFilter(
+      filters.Collected(null, null),
+      fromBlock,
+      toBlock
+    );
+    const events: AppliedEvent[] = [
+      ...receiverEvents.map(
+        (event): AppliedEvent => [
+          event,
+          (startTime: number): void => {
+            const { sender, receiver, amtPerSec, endTime } = event.args;
+            const stream = { sender, receiver, amtPerSec, startTime, endTime };
+            setStream(this.state.receiverStreams, stream);
+          },
+        ]
+      ),
+      ...proxyEvents.map(
+        (event): AppliedEvent => [
+          event,
+          (startTime: number): void => {
+            const { sender, proxy, amtPerSec, endTime } = event.args;
+            const stream = { sender, receiver: proxy, amtPerSec, startTime, endTime };
+            setStream(this.state.proxyStreams, stream);
+          },
+        ]
+      ),
+      ...proxyWeightsEvents.map(
+        (event): AppliedEvent => [
+          event,
+          (): void => {
+            const { proxy, receiver, weight } = event.args;
+            const weights = new Map(this.state.proxyWeights.get(proxy) ?? []);
+            if (weight == 0) {
+              weights.delete(receiver);
+            } else {
+              weights.set(receiver, weight);
+            }
+            this.state.proxyWeights.set(proxy, weights);
+          },
+        ]
+      ),
+      ...senderEvents.map(
+        (event): AppliedEvent => [
+          event,
+          (updateTime: number): void => {
+            const { sender, balance, amtPerSec } = event.args;
+            this.state.senders.set(sender, { balance, amtPerSec, updateTime });
+          },
+        ]
+      ),
+      ...collectedEvents.map(
+        (event): AppliedEvent => [
+          event,
+          (): void => {
+            const { receiver, amt } = event.args;
+            this.state.collected.set(receiver, this.collected(receiver).add(amt));
+          },
+        ]
+      ),
+    ];
+    return events.sort(([a], [b]) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+}
+
+function initialState(blockNumber: number): PoolIndexerState {
+  return {
+    blockNumber,
+    blockHash: constants.HashZero,
+    blockTimestamp: 0,
+    receiverStreams: new Map<string, PoolStream>(),
+    proxyStreams: new Map<string, PoolStream>(),
+    proxyWeights: new Map<string, Map<string, number>>(),
+    senders: new Map<string, PoolSenderInfo>(),
+    collected: new Map<string, BigNumber>(),
+  };
+}
+
+// All the values stored in the state are immutable, so only the maps need to be copied
+function cloneState(state: PoolIndexerState): PoolIndexerState {
+  return {
+    ...state,
+    receiverStreams: new Map(state.receiverStreams),
+    proxyStreams: new Map(state.proxyStreams),
+    proxyWeights: new Map(state.proxyWeights),
+    senders: new Map(state.senders),
+    collected: new Map(state.collected),
+  };
+}
+
+function setStream(streams: Map<string, PoolStream>, stream: PoolStream): void {
+  const key = stream.sender + ":" + stream.receiver;
+  if (stream.amtPerSec.isZero()) {
+    streams.delete(key);
+  } else {
+    streams.set(key, stream);
+  }
+}
+
+function activeStreams(streams: Map<string, PoolStream>, timestamp: number): PoolStream[] {
+  return Array.from(streams.values()).filter((stream) => stream.endTime.gt(timestamp));
+}
@@ -0,0 +1,540 @@
+import { utils, BigNumber, BigNumberish, constants } from "ethers";
+import { ReceiverWeight, SenderUpdate, WITHDRAW_ALL, AMT_PER_SEC_UNCHANGED } from "./pool";
+
+// Same as Pool contract `MAX_TIMESTAMP`
+const MAX_TIMESTAMP = BigNumber.from(1).shl(64).sub(3);
+// Same as Pool contract `SENDER_WEIGHTS_SUM_MAX`
+const SENDER_WEIGHTS_SUM_MAX = 10000;
+// Same as Pool contract `SENDER_WEIGHTS_COUNT_MAX`
+const SENDER_WEIGHTS_COUNT_MAX = 100;
+// Same as Pool contract `PROXY_WEIGHTS_SUM`
+const PROXY_WEIGHTS_SUM = 100;
+// Same as Pool contract `PROXY_WEIGHTS_COUNT_MAX`
+const PROXY_WEIGHTS_COUNT_MAX = 10;
+
+// The configuration of a sender, which starts sending at a given time
+export interface SenderConfig {
+  sender: string;
+  balance: BigNumberish;
+  amtPerSec: BigNumberish;
+  receivers?: ReceiverWeight[];
+  proxies?: ReceiverWeight[];
+}
+
+interface SenderState {
+  startTime: BigNumber;
+  startBalance: BigNumber;
+  weightSum: number;
+  weightCount: number;
+  amtPerSec: BigNumber;
+  // The keys are the receivers' addresses, the entries with both weights 0 are removed
+  weights: Map<string, { receiverWeight: number; proxyWeight: number }>;
+}
+
+interface AmtDelta {
+  thisCycle: BigNumber;
+  nextCycle: BigNumber;
+}
+
+// The keys are the cycles numbers serialized with `toString`
+type AmtDeltas = Map<string, AmtDelta>;
+
+interface ReceiverState {
+  nextCollectedCycle: BigNumber;
+  lastFundsPerCycle: BigNumber;
+  amtDeltas: AmtDeltas;
+}
+
+interface ProxyState {
+  // The keys are the receivers' addresses, the entries with weight 0 are removed
+  weights: Map<string, number>;
+  amtPerWeightDeltas: AmtDeltas;
+}
+
+// An off-chain model of the funding pool accounting.
+// It mirrors the `Pool` contract logic step by step including all the rounding,
+// so it predicts exactly what the contract would return if the same operations were
+// applied to it on the same timestamps.
+// The operations must be applied in the order of their timestamps.
+// An operation which would revert on-chain throws an error and leaves the state unchanged.
+export class PoolSimulator {
+  readonly cycleSecs: BigNumber;
+  private senders = new Map<string, SenderState>();
+  private receivers = new Map<string, ReceiverState>();
+  private proxies = new Map<string, ProxyState>();
+  private lastTimestamp = constants.Zero;
+
+  constructor(cycleSecs: BigNumberish) {
+    this.cycleSecs = BigNumber.from(cycleSecs);
+  }
+
+  // Creates a simulator with all the proxies and senders configured on the given timestamp.
+  static withSenders(
+    cycleSecs: BigNumberish,
+    timestamp: BigNumberish,
+    senders: SenderConfig[],
+    proxies = new Map<string, ReceiverWeight[]>()
+  ): PoolSimulator {
+    const simulator = new PoolSimulator(cycleSecs);
+    for (const [proxy, weights] of proxies) {
+      simulator.setProxyWeights(timestamp, proxy, weights);
+    }
+    for (const { sender, balance, amtPerSec, receivers, proxies } of senders) {
+      simulator.updateSender(timestamp, sender, { topUp: balance, amtPerSec, receivers, proxies });
+    }
+    return simulator;
+  }
+
+  // Mirrors `updateSender`, returns the withdrawn amount
+  updateSender(timestamp: BigNumberish, senderAddr: string, update: SenderUpdate): BigNumber {
+    return this.atomic(timestamp, (now) => {
+      const sender = utils.getAddress(senderAddr);
+      this.stopSending(now, sender);
+      const state = this.senderState(sender);
+      state.startBalance = state.startBalance.add(update.topUp ?? 0);
+      const withdrawn = this.withdraw(state, BigNumber.from(update.withdraw ?? 0));
+      const amtPerSec = BigNumber.from(update.amtPerSec ?? AMT_PER_SEC_UNCHANGED);
+      if (!amtPerSec.eq(AMT_PER_SEC_UNCHANGED)) state.amtPerSec = amtPerSec;
+      for (const { receiver, weight } of update.receivers ?? []) {
+        this.setReceiver(state, utils.getAddress(receiver), weight);
+      }
+      for (const { receiver, weight } of update.proxies ?? []) {
+        this.setProxy(state, utils.getAddress(receiver), weight);
+      }
+      this.startSending(now, sender);
+      return withdrawn;
+    });
+  }
+
+  // Mirrors `setProxyWeights`
+  setProxyWeights(timestamp: BigNumberish, proxyAddr: string, weights: ReceiverWeight[]): void {
+    this.atomic(timestamp, (now) => {
+      const proxy = utils.getAddress(proxyAddr);
+      this.applyProxyDeltasOnReceivers(now, proxy, -1);
+      const state = this.proxyState(proxy);
+      let weightSum = state.weights.size == 0 ? 0 : PROXY_WEIGHTS_SUM;
+      for (const { receiver: receiverAddr, weight } of weights) {
+        const receiver = utils.getAddress(receiverAddr);
+        requireValid(receiver != constants.AddressZero, "Invalid receiver address");
+        const oldWeight = state.weights.get(receiver) ?? 0;
+        setOrDelete(state.weights, receiver, weight, weight != 0);
+        weightSum += weight - oldWeight;
+        const receiverState = this.receiverState(receiver);
+        if (weight != 0 && oldWeight == 0 && receiverState.nextCollectedCycle.isZero()) {
+          receiverState.nextCollectedCycle = this.cycleOf(now).add(1);
+        }
+      }
+      requireValid(weightSum == PROXY_WEIGHTS_SUM, "Proxy doesn't have the constant weight sum");
+      this.applyProxyDeltasOnReceivers(now, proxy, 1);
+    });
+  }
+
+  // Mirrors `collect`, returns the collected amount
+  collect(timestamp: BigNumberish, receiverAddr: string): BigNumber {
+    return this.atomic(timestamp, (now) => {
+      const receiver = this.receiverState(utils.getAddress(receiverAddr));
+      const { collected, nextCollectedCycle, lastFundsPerCycle } = this.collectable_(now, receiver);
+      // The deltas of all the cycles preceding the collected cycles are no longer needed
+      for (const key of Array.from(receiver.amtDeltas.keys())) {
+        const cycle = BigNumber.from(key);
+        if (cycle.gte(receiver.nextCollectedCycle.sub(1)) && cycle.lt(nextCollectedCycle.sub(1))) {
+          receiver.amtDeltas.delete(key);
+        }
+      }
+      receiver.nextCollectedCycle = nextCollectedCycle;
+      receiver.lastFundsPerCycle = lastFundsPerCycle;
+      return collected;
+    });
+  }
+
+  // Mirrors `collectable`, the timestamp must not be earlier than the last operation
+  collectable(timestamp: BigNumberish, receiverAddr: string): BigNumber {
+    const now = this.checkTimestamp(timestamp);
+    const receiver = this.receivers.get(utils.getAddress(receiverAddr));
+    if (receiver === undefined) return constants.Zero;
+    return this.collectable_(now, receiver).collected;
+  }
+
+  // The amount which will be collectable on the beginning of the cycle following the timestamp
+  collectableNextCycle(timestamp: BigNumberish, receiverAddr: string): BigNumber {
+    const nextCycleStart = this.cycleOf(BigNumber.from(timestamp)).add(1).mul(this.cycleSecs);
+    return this.collectable(nextCycleStart, receiverAddr);
+  }
+
+  // Mirrors `withdrawable`, the timestamp must not be earlier than the last operation
+  withdrawable(timestamp: BigNumberish, senderAddr: string): BigNumber {
+    const now = this.checkTimestamp(timestamp);
+    const sender = this.senders.get(utils.getAddress(senderAddr));
+    if (sender === undefined) return constants.Zero;
+    const amtPerSec = this.effectiveAmtPerSec(sender);
+    if (amtPerSec === undefined) return sender.startBalance;
+    const alreadySent = now.sub(sender.startTime).mul(amtPerSec);
+    if (alreadySent.gt(sender.startBalance)) return sender.startBalance.mod(amtPerSec);
+    return sender.startBalance.sub(alreadySent);
+  }
+
+  // Mirrors `getAmtPerSec`
+  getAmtPerSec(senderAddr: string): BigNumber {
+    const sender = this.senders.get(utils.getAddress(senderAddr));
+    return sender === undefined ? constants.Zero : sender.amtPerSec;
+  }
+
+  // Mirrors `getAllReceivers`
+  getAllReceivers(
+    senderAddr: string
+  ): { receiver: string; receiverWeight: number; proxyWeight: number }[] {
+    const sender = this.senders.get(utils.getAddress(senderAddr));
+    if (sender === undefined) return [];
+    return Array.from(sender.weights, ([receiver, weights]) => ({ receiver, ...weights }));
+  }
+
+  // Mirrors `getProxyWeights`
+  getProxyWeights(proxyAddr: string): ReceiverWeight[] {
+    const proxy = this.proxies.get(utils.getAddress(proxyAddr));
+    if (proxy === undefined) return [];
+    return Array.from(proxy.weights, ([receiver, weight]) => ({ receiver, weight }));
+  }
+
+  // The timestamp on which the sender runs out of funds and stops sending.
+  // It's the same as the `endTime` emitted in the `SenderToReceiverUpdated` events.
+  // Returns undefined if the sender isn't sending anything.
+  senderEndTime(senderAddr: string): BigNumber | undefined {
+    const sender = this.senders.get(utils.getAddress(senderAddr));
+    if (sender === undefined) return undefined;
+    const amtPerSec = this.effectiveAmtPerSec(sender);
+    if (amtPerSec === undefined || sender.startBalance.lt(amtPerSec)) return undefined;
+    return minBigNumber(sender.startTime.add(sender.startBalance.div(amtPerSec)), MAX_TIMESTAMP);
+  }
+
+  private collectable_(
+    now: BigNumber,
+    receiver: ReceiverState
+  ): { collected: BigNumber; nextCollectedCycle: BigNumber; lastFundsPerCycle: BigNumber } {
+    const { nextCollectedCycle, lastFundsPerCycle, amtDeltas } = receiver;
+    const currFinishedCycle = this.cycleOf(now);
+    if (nextCollectedCycle.isZero() || nextCollectedCycle.gt(currFinishedCycle)) {
+      return { collected: constants.Zero, nextCollectedCycle, lastFundsPerCycle };
+    }
+    // The funds per cycle change only on cycles with deltas set and on the cycles after them.
+    // Between these cycles the funds per cycle are constant, so they can be summed in bulk.
+    const changes = new Set<string>();
+    for (const key of amtDeltas.keys()) {
+      const cycle = BigNumber.from(key);
+      for (const changed of [cycle, cycle.add(1)]) {
+        if (changed.gte(nextCollectedCycle) && changed.lte(currFinishedCycle)) {
+          changes.add(changed.toString());
+        }
+      }
+    }
+    const changedCycles = Array.from(changes, (cycle) => BigNumber.from(cycle)).sort((a, b) =>
+      a.lt(b) ? -1 : a.gt(b) ? 1 : 0
+    );
+    let collected = constants.Zero;
+    let fundsPerCycle = lastFundsPerCycle;
+    let cycle = nextCollectedCycle;
+    for (const changedCycle of changedCycles) {
+      collected = collected.add(fundsPerCycle.mul(changedCycle.sub(cycle)));
+      fundsPerCycle = fundsPerCycle
+        .add(getDelta(amtDeltas, changedCycle.sub(1)).nextCycle)
+        .add(getDelta(amtDeltas, changedCycle).thisCycle);
+      collected = collected.add(fundsPerCycle);
+      cycle = changedCycle.add(1);
+    }
+    const nextCycle = currFinishedCycle.add(1);
+    collected = collected.add(fundsPerCycle.mul(nextCycle.sub(cycle)));
+    return { collected, nextCollectedCycle: nextCycle, lastFundsPerCycle: fundsPerCycle };
+  }
+
+  private withdraw(sender: SenderState, amt: BigNumber): BigNumber {
+    if (amt.eq(WITHDRAW_ALL)) amt = sender.startBalance;
+    requireValid(amt.lte(sender.startBalance), "Not enough funds in the sender account");
+    sender.startBalance = sender.startBalance.sub(amt);
+    return amt;
+  }
+
+  private setReceiver(sender: SenderState, receiver: string, weight: number): void {
+    requireValid(receiver != constants.AddressZero, "Invalid receiver address");
+    const oldWeights = sender.weights.get(receiver) ?? { receiverWeight: 0, proxyWeight: 0 };
+    const oldWeight = oldWeights.receiverWeight;
+    const newWeights = { ...oldWeights, receiverWeight: weight };
+    setOrDelete(sender.weights, receiver, newWeights, weight != 0 || newWeights.proxyWeight != 0);
+    sender.weightSum += weight - oldWeight;
+    requireValid(sender.weightSum <= SENDER_WEIGHTS_SUM_MAX, "Too much total receivers weight");
+    if (weight != 0 && oldWeight == 0) {
+      sender.weightCount++;
+      requireValid(sender.weightCount <= SENDER_WEIGHTS_COUNT_MAX, "Too many receivers");
+    } else if (weight == 0 && oldWeight != 0) {
+      sender.weightCount--;
+    }
+  }
+
+  private setProxy(sender: SenderState, proxy: string, weight: number): void {
+    const proxyState = this.proxies.get(proxy);
+    requireValid(proxyState !== undefined && proxyState.weights.size > 0, "Proxy doesn't exist");
+    requireValid(
+      weight % PROXY_WEIGHTS_SUM == 0,
+      "Proxy weight not a multiple of PROXY_WEIGHTS_SUM"
+    );
+    const oldWeights = sender.weights.get(proxy) ?? { receiverWeight: 0, proxyWeight: 0 };
+    const oldWeight = oldWeights.proxyWeight;
+    const newWeights = { ...oldWeights, proxyWeight: weight };
+    setOrDelete(sender.weights, proxy, newWeights, weight != 0 || newWeights.receiverWeight != 0);
+    sender.weightSum += weight - oldWeight;
+    requireValid(sender.weightSum <= SENDER_WEIGHTS_SUM_MAX, "Too much total receivers weight");
+    if (weight != 0 && oldWeight == 0) {
+      sender.weightCount += PROXY_WEIGHTS_COUNT_MAX;
+      requireValid(sender.weightCount <= SENDER_WEIGHTS_COUNT_MAX, "Too many receivers");
+    } else if (weight == 0 && oldWeight != 0) {
+      sender.weightCount -= PROXY_WEIGHTS_COUNT_MAX;
+    }
+  }
+
+  private stopSending(now: BigNumber, senderAddr: string): void {
+    const sender = this.senders.get(senderAddr);
+    if (sender === undefined) return;
+    const amtPerSec = this.effectiveAmtPerSec(sender);
+    if (amtPerSec === undefined) return;
+    const amtPerWeight = sender.amtPerSec.div(sender.weightSum);
+    const endTime = minBigNumber(
+      sender.startTime.add(sender.startBalance.div(amtPerSec)),
+      MAX_TIMESTAMP
+    );
+    // The funding period has run out
+    if (endTime.lte(now)) {
+      sender.startBalance = sender.startBalance.mod(amtPerSec);
+      return;
+    }
+    sender.startBalance = sender.startBalance.sub(now.sub(sender.startTime).mul(amtPerSec));
+    this.setDeltasFromNow(now, sender, amtPerWeight.mul(-1), endTime);
+  }
+
+  private startSending(now: BigNumber, senderAddr: string): void {
+    const sender = this.senderState(senderAddr);
+    const amtPerSec = this.effectiveAmtPerSec(sender);
+    if (amtPerSec === undefined || sender.startBalance.lt(amtPerSec)) return;
+    const amtPerWeight = sender.amtPerSec.div(sender.weightSum);
+    sender.startTime = now;
+    const endTime = minBigNumber(now.add(sender.startBalance.div(amtPerSec)), MAX_TIMESTAMP);
+    this.setDeltasFromNow(now, sender, amtPerWeight, endTime);
+  }
+
+  // The amount actually sent every second or undefined if the sender isn't sending
+  private effectiveAmtPerSec(sender: SenderState): BigNumber | undefined {
+    if (sender.weightSum == 0 || sender.amtPerSec.lt(sender.weightSum)) return undefined;
+    return sender.amtPerSec.div(sender.weightSum).mul(sender.weightSum);
+  }
+
+  private setDeltasFromNow(
+    now: BigNumber,
+    sender: SenderState,
+    amtPerWeightPerSecDelta: BigNumber,
+    timeEnd: BigNumber
+  ): void {
+    for (const [receiver, { receiverWeight, proxyWeight }] of sender.weights) {
+      if (receiverWeight != 0) {
+        const amtPerSecDelta = amtPerWeightPerSecDelta.mul(receiverWeight);
+        this.setReceiverDeltaFromNow(now, receiver, amtPerSecDelta, timeEnd);
+      }
+      if (proxyWeight != 0) {
+        const amtPerSecDelta = amtPerWeightPerSecDelta.mul(proxyWeight);
+        this.updateProxyReceiversDeltaFromNow(now, receiver, amtPerSecDelta, timeEnd);
+      }
+    }
+  }
+
+  private updateProxyReceiversDeltaFromNow(
+    now: BigNumber,
+    proxyAddr: string,
+    amtPerSecDelta: BigNumber,
+    timeEnd: BigNumber
+  ): void {
+    const amtPerSecPerProxyWeightDelta = amtPerSecDelta.div(PROXY_WEIGHTS_SUM);
+    const proxy = this.proxyState(proxyAddr);
+    this.setSingleDelta(proxy.amtPerWeightDeltas, now, amtPerSecPerProxyWeightDelta);
+    this.setSingleDelta(proxy.amtPerWeightDeltas, timeEnd, amtPerSecPerProxyWeightDelta.mul(-1));
+    for (const [receiver, weight] of proxy.weights) {
+      const receiverDelta = amtPerSecPerProxyWeightDelta.mul(weight);
+      this.setReceiverDeltaFromNow(now, receiver, receiverDelta, timeEnd);
+    }
+  }
+
+  private setReceiverDeltaFromNow(
+    now: BigNumber,
+    receiverAddr: string,
+    amtPerSecDelta: BigNumber,
+    timeEnd: BigNumber
+  ): void {
+    const receiver = this.receiverState(receiverAddr);
+    if (amtPerSecDelta.gt(0) && receiver.nextCollectedCycle.isZero()) {
+      receiver.nextCollectedCycle = this.cycleOf(now).add(1);
+    }
+    this.setSingleDelta(receiver.amtDeltas, now, amtPerSecDelta);
+    this.setSingleDelta(receiver.amtDeltas, timeEnd, amtPerSecDelta.mul(-1));
+  }
+
+  // Splits the delta between the cycle containing the timestamp and the next one,
+  // proportionally to how many seconds of each cycle are affected
+  private setSingleDelta(
+    amtDeltas: AmtDeltas,
+    timestamp: BigNumber,
+    amtPerSecDelta: BigNumber
+  ): void {
+    const thisCycle = this.cycleOf(timestamp).add(1);
+    const nextCycleSecs = timestamp.mod(this.cycleSecs);
+    const thisCycleSecs = this.cycleSecs.sub(nextCycleSecs);
+    const delta = getDelta(amtDeltas, thisCycle);
+    amtDeltas.set(thisCycle.toString(), {
+      thisCycle: delta.thisCycle.add(thisCycleSecs.mul(amtPerSecDelta)),
+      nextCycle: delta.nextCycle.add(nextCycleSecs.mul(amtPerSecDelta)),
+    });
+  }
+
+  private applyProxyDeltasOnReceivers(now: BigNumber, proxyAddr: string, multiplier: number): void {
+    const proxy = this.proxies.get(proxyAddr);
+    // The proxy doesn't exist
+    if (proxy === undefined || proxy.weights.size == 0) return;
+    requireValid(proxy.weights.size <= PROXY_WEIGHTS_COUNT_MAX, "Too many proxy receivers");
+    const finishedCycle = this.cycleOf(now);
+    const currCycle = finishedCycle.add(1);
+    let totalDelta = constants.Zero;
+    for (const [key, delta] of Array.from(proxy.amtPerWeightDeltas)) {
+      const cycle = BigNumber.from(key);
+      if ((delta.thisCycle.isZero() && delta.nextCycle.isZero()) || cycle.lt(finishedCycle)) {
+        proxy.amtPerWeightDeltas.delete(key);
+        continue;
+      }
+      // `thisCycleDelta` from the previously finished cycle is irrelevant
+      const thisCycleDelta = cycle.eq(finishedCycle) ? constants.Zero : delta.thisCycle;
+      const thisCycleApplied = thisCycleDelta.mul(multiplier);
+      const nextCycleApplied = delta.nextCycle.mul(multiplier);
+      totalDelta = totalDelta.add(thisCycleApplied).add(nextCycleApplied);
+      for (const [receiverAddr, weight] of proxy.weights) {
+        const amtDeltas = this.receiverState(receiverAddr).amtDeltas;
+        const receiverDelta = getDelta(amtDeltas, cycle);
+        amtDeltas.set(key, {
+          thisCycle: receiverDelta.thisCycle.add(thisCycleApplied.mul(weight)),
+          nextCycle: receiverDelta.nextCycle.add(nextCycleApplied.mul(weight)),
+        });
+      }
+    }
+    // Set the delta for the current cycle, which balances all the applied deltas
+    if (!totalDelta.isZero()) {
+      for (const [receiverAddr, weight] of proxy.weights) {
+        const amtDeltas = this.receiverState(receiverAddr).amtDeltas;
+        const receiverDelta = getDelta(amtDeltas, currCycle);
+        amtDeltas.set(currCycle.toString(), {
+          ...receiverDelta,
+          thisCycle: receiverDelta.thisCycle.sub(totalDelta.mul(weight)),
+        });
+      }
+    }
+  }
+
+  private cycleOf(timestamp: BigNumber): BigNumber {
+    return timestamp.div(this.cycleSecs);
+  }
+
+  private senderState(sender: string): SenderState {
+    let state = this.senders.get(sender);
+    if (state === undefined) {
+      state = {
+        startTime: constants.Zero,
+        startBalance: constants.Zero,
+        weightSum: 0,
+        weightCount: 0,
+        amtPerSec: constants.Zero,
+        weights: new Map<string, { receiverWeight: number; proxyWeight: number }>(),
+      };
+      this.senders.set(sender, state);
+    }
+    return state;
+  }
+
+  private receiverState(receiver: string): ReceiverState {
+    let state = this.receivers.get(receiver);
+    if (state === undefined) {
+      state = {
+        nextCollectedCycle: constants.Zero,
+        lastFundsPerCycle: constants.Zero,
+        amtDeltas: new Map<string, AmtDelta>(),
+      };
+      this.receivers.set(receiver, state);
+    }
+    return state;
+  }
+
+  private proxyState(proxy: string): ProxyState {
+    let state = this.proxies.get(proxy);
+    if (state === undefined) {
+      state = {
+        weights: new Map<string, number>(),
+        amtPerWeightDeltas: new Map<string, AmtDelta>(),
+      };
+      this.proxies.set(proxy, state);
+    }
+    return state;
+  }
+
+  private checkTimestamp(timestamp: BigNumberish): BigNumber {
+    const now = BigNumber.from(timestamp);
+    if (now.lt(this.lastTimestamp)) {
+      throw new Error(`Timestamp ${now.toString()} is earlier than the last operation`);
+    }
+    return now;
+  }
+
+  // Runs an operation, which either succeeds or leaves the state unchanged like a transaction
+  private atomic<T>(timestamp: BigNumberish, fn: (now: BigNumber) => T): T {
+    const now = this.checkTimestamp(timestamp);
+    const senders = cloneMap(this.senders, (sender) => ({
+      ...sender,
+      weights: cloneMap(sender.weights, (weights) => ({ ...weights })),
+    }));
+    const receivers = cloneMap(this.receivers, (receiver) => ({
+      ...receiver,
+      amtDeltas: new Map(receiver.amtDeltas),
+    }));
+    const proxies = cloneMap(this.proxies, (proxy) => ({
+      weights: new Map(proxy.weights),
+      amtPerWeightDeltas: new Map(proxy.amtPerWeightDeltas),
+    }));
+    try {
+      const result = fn(now);
+      this.lastTimestamp = now;
+      return result;
+    } catch (e) {
+      this.senders = senders;
+      this.receivers = receivers;
+      this.proxies = proxies;
+      throw e;
+    }
+  }
+}
+
+function requireValid(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function getDelta(amtDeltas: AmtDeltas, cycle: BigNumber): AmtDelta {
+  return (
+    amtDeltas.get(cycle.toString()) ?? { thisCycle: constants.Zero, nextCycle: constants.Zero }
+  );
+}
+
+function setOrDelete<V>(map: Map<string, V>, key: string, value: V, isSet: boolean): void {
+  if (isSet) {
+    map.set(key, value);
+  } else {
+    map.delete(key);
+  }
+}
+
+function cloneMap<V>(map: Map<string, V>, cloneValue: (value: V) => V): Map<string, V> {
+  return new Map(Array.from(map, ([key, value]) => [key, cloneValue(value)]));
+}
+
+function minBigNumber(a: BigNumber, b: BigNumber): BigNumber {
+  return a.lt(b) ? a : b;
+}
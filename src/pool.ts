@@ -0,0 +1,265 @@
+import {
+  utils,
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  Overrides,
+  PayableOverrides,
+} from "ethers";
+import { DaiPool } from "../contract-bindings/ethers/DaiPool";
+import { Erc20Pool } from "../contract-bindings/ethers/Erc20Pool";
+import { EthPool } from "../contract-bindings/ethers/EthPool";
+import { submitOk } from "./deploy";
+
+export type AnyPool = EthPool | Erc20Pool | DaiPool;
+
+// Same as Pool contract `WITHDRAW_ALL`
+export const WITHDRAW_ALL = BigNumber.from(1).shl(128).sub(1);
+// Same as Pool contract `AMT_PER_SEC_UNCHANGED`
+export const AMT_PER_SEC_UNCHANGED = BigNumber.from(1).shl(128).sub(1);
+
+const UINT128_MAX = BigNumber.from(1).shl(128).sub(1);
+const UINT32_MAX = 2 ** 32 - 1;
+
+export interface ReceiverWeight {
+  receiver: string;
+  weight: number;
+}
+
+export interface ReceiverProxyWeight {
+  receiver: string;
+  receiverWeight: number;
+  proxyWeight: number;
+}
+
+// A change of the sender's configuration, all the fields are optional.
+// The receivers and proxies with weight 0 are removed from the sender.
+export interface SenderUpdate {
+  topUp?: BigNumberish;
+  // Can be `WITHDRAW_ALL` to withdraw everything
+  withdraw?: BigNumberish;
+  // Can be `AMT_PER_SEC_UNCHANGED` to keep the amount unchanged
+  amtPerSec?: BigNumberish;
+  receivers?: ReceiverWeight[];
+  proxies?: ReceiverWeight[];
+}
+
+export interface PoolConstants {
+  senderWeightsSumMax: number;
+  senderWeightsCountMax: number;
+  proxyWeightsSum: number;
+  proxyWeightsCountMax: number;
+}
+
+export async function poolConstants(pool: AnyPool): Promise<PoolConstants> {
+  return {
+    senderWeightsSumMax: await pool.SENDER_WEIGHTS_SUM_MAX(),
+    senderWeightsCountMax: await pool.SENDER_WEIGHTS_COUNT_MAX(),
+    proxyWeightsSum: await pool.PROXY_WEIGHTS_SUM(),
+    proxyWeightsCountMax: await pool.PROXY_WEIGHTS_COUNT_MAX(),
+  };
+}
+
+// Returns true if the pool is an `EthPool`, which is topped up with the sent ether.
+// The ERC-20 pools are topped up with tokens transferred from the sender's account.
+export function isEthPool(pool: AnyPool): pool is EthPool {
+  return !("erc20" in pool);
+}
+
+// A client of a funding pool of any flavour acting on behalf of the pool's signer.
+// All the inputs are validated against the pool limits before any transaction is sent.
+// The ERC-20 pools require the signer to approve the pool to spend the topped up tokens.
+export class PoolClient {
+  readonly pool: AnyPool;
+  private constants?: PoolConstants;
+
+  constructor(pool: AnyPool) {
+    this.pool = pool;
+  }
+
+  async topUp(amount: BigNumberish, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.updateSender({ topUp: amount }, overrides);
+  }
+
+  // The amount can be `WITHDRAW_ALL` to withdraw everything
+  async withdraw(amount: BigNumberish, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.updateSender({ withdraw: amount }, overrides);
+  }
+
+  async withdrawAll(overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.withdraw(WITHDRAW_ALL, overrides);
+  }
+
+  async setAmtPerSec(amtPerSec: BigNumberish, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.updateSender({ amtPerSec }, overrides);
+  }
+
+  async setReceiver(
+    receiver: string,
+    weight: number,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.updateSender({ receivers: [{ receiver, weight }] }, overrides);
+  }
+
+  async removeReceiver(receiver: string, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.setReceiver(receiver, 0, overrides);
+  }
+
+  async setProxy(
+    proxy: string,
+    weight: number,
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    return this.updateSender({ proxies: [{ receiver: proxy, weight }] }, overrides);
+  }
+
+  async removeProxy(proxy: string, overrides: Overrides = {}): Promise<ContractReceipt> {
+    return this.setProxy(proxy, 0, overrides);
+  }
+
+  // Applies all the changes to the sender in a single transaction
+  async updateSender(update: SenderUpdate, overrides: Overrides = {}): Promise<ContractReceipt> {
+    const topUp = BigNumber.from(update.topUp ?? 0);
+    const withdraw = BigNumber.from(update.withdraw ?? 0);
+    const amtPerSec = BigNumber.from(update.amtPerSec ?? AMT_PER_SEC_UNCHANGED);
+    const receivers = update.receivers ?? [];
+    const proxies = update.proxies ?? [];
+    validateAmount(topUp, "top up amount");
+    validateAmount(withdraw, "withdrawn amount");
+    validateAmount(amtPerSec, "amount per second");
+    await this.validateSenderWeights(receivers, proxies);
+    const pool = this.pool;
+    if (isEthPool(pool)) {
+      const payableOverrides: PayableOverrides = { ...overrides, value: topUp };
+      return submitOk(
+        pool.updateSender(withdraw, amtPerSec, receivers, proxies, payableOverrides),
+        pool.provider
+      );
+    }
+    return submitOk(
+      pool.updateSender(topUp, withdraw, amtPerSec, receivers, proxies, overrides),
+      pool.provider
+    );
+  }
+
+  // Sets the weights of the receivers of the proxy, the weight 0 removes a receiver
+  async setProxyWeights(
+    weights: ReceiverWeight[],
+    overrides: Overrides = {}
+  ): Promise<ContractReceipt> {
+    const { proxyWeightsSum, proxyWeightsCountMax } = await this.getConstants();
+    const proxyWeights = new Map<string, number>();
+    for (const { receiver, weight } of await this.pool.getProxyWeights()) {
+      proxyWeights.set(receiver, weight);
+    }
+    for (const { receiver, weight } of weights) {
+      validateWeight(weight, "proxy receiver " + receiver);
+      const receiverAddr = utils.getAddress(receiver);
+      if (weight == 0) {
+        proxyWeights.delete(receiverAddr);
+      } else {
+        proxyWeights.set(receiverAddr, weight);
+      }
+    }
+    if (proxyWeights.size > proxyWeightsCountMax) {
+      throw new Error("Too many proxy receivers");
+    }
+    let weightsSum = 0;
+    proxyWeights.forEach((weight) => (weightsSum += weight));
+    if (weightsSum != proxyWeightsSum) {
+      throw new Error("Proxy doesn't have the constant weight sum");
+    }
+    return submitOk(this.pool.setProxyWeights(weights, overrides), this.pool.provider);
+  }
+
+  async collect(overrides: Overrides = {}): Promise<ContractReceipt> {
+    return submitOk(this.pool.collect(overrides), this.pool.provider);
+  }
+
+  async collectable(): Promise<BigNumber> {
+    return this.pool.collectable();
+  }
+
+  async withdrawable(): Promise<BigNumber> {
+    return this.pool.withdrawable();
+  }
+
+  async getAmtPerSec(): Promise<BigNumber> {
+    return this.pool.getAmtPerSec();
+  }
+
+  async getAllReceivers(): Promise<ReceiverProxyWeight[]> {
+    const weights = await this.pool.getAllReceivers();
+    return weights.map(({ receiver, receiverWeight, proxyWeight }) => ({
+      receiver,
+      receiverWeight,
+      proxyWeight,
+    }));
+  }
+
+  async getProxyWeights(): Promise<ReceiverWeight[]> {
+    const weights = await this.pool.getProxyWeights();
+    return weights.map(({ receiver, weight }) => ({ receiver, weight }));
+  }
+
+  async getConstants(): Promise<PoolConstants> {
+    if (this.constants === undefined) {
+      this.constants = await poolConstants(this.pool);
+    }
+    return this.constants;
+  }
+
+  // Checks if the sender's receivers list would be valid after applying the updates
+  private async validateSenderWeights(
+    receivers: ReceiverWeight[],
+    proxies: ReceiverWeight[]
+  ): Promise<void> {
+    if (receivers.length == 0 && proxies.length == 0) return;
+    const constants = await this.getConstants();
+    const weights = new Map<string, ReceiverProxyWeight>();
+    for (const weight of await this.getAllReceivers()) {
+      weights.set(weight.receiver, weight);
+    }
+    const getWeight = (receiver: string): ReceiverProxyWeight =>
+      weights.get(receiver) ?? { receiver, receiverWeight: 0, proxyWeight: 0 };
+    for (const { receiver, weight } of receivers) {
+      validateWeight(weight, "receiver " + receiver);
+      const receiverAddr = utils.getAddress(receiver);
+      weights.set(receiverAddr, { ...getWeight(receiverAddr), receiverWeight: weight });
+    }
+    for (const { receiver, weight } of proxies) {
+      validateWeight(weight, "proxy " + receiver);
+      if (weight % constants.proxyWeightsSum != 0) {
+        throw new Error("Proxy weight not a multiple of PROXY_WEIGHTS_SUM");
+      }
+      const proxyAddr = utils.getAddress(receiver);
+      weights.set(proxyAddr, { ...getWeight(proxyAddr), proxyWeight: weight });
+    }
+    let weightsSum = 0;
+    let weightsCount = 0;
+    for (const { receiverWeight, proxyWeight } of weights.values()) {
+      weightsSum += receiverWeight + proxyWeight;
+      if (receiverWeight != 0) weightsCount += 1;
+      if (proxyWeight != 0) weightsCount += constants.proxyWeightsCountMax;
+    }
+    if (weightsSum > constants.senderWeightsSumMax) {
+      throw new Error("Too much total receivers weight");
+    }
+    if (weightsCount > constants.senderWeightsCountMax) {
+      throw new Error("Too many receivers");
+    }
+  }
+}
+
+function validateAmount(amount: BigNumber, amountUsage: string): void {
+  if (amount.lt(0) || amount.gt(UINT128_MAX)) {
+    throw new Error(`Invalid ${amountUsage}: ${amount.toString()}`);
+  }
+}
+
+function validateWeight(weight: number, weightUsage: string): void {
+  if (!Number.isInteger(weight) || weight < 0 || weight > UINT32_MAX) {
+    throw new Error(`Invalid weight of ${weightUsage}: ${weight}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { constants, providers, utils, BigNumber, ContractReceipt, Overrides } from "ethers";
+import { Proxy } from "../contract-bindings/ethers/Proxy";
+import { submitOk } from "./deploy";
+import { ProxyFailure } from "./errors";
+import { checkStorageLayout, StorageLayout } from "./storage-layout";
+
+// The names of the `ErrorReporter.Error` enum values
+export const PROXY_ERRORS = ["NO_ERROR", "UNAUTHORIZED"];
+
+// The names of the `ErrorReporter.FailureInfo` enum values
+export const PROXY_FAILURE_INFOS = [
+  "ACCEPT_ADMIN_PENDING_ADMIN_CHECK",
+  "ACCEPT_PENDING_IMPLEMENTATION_ADDRESS_CHECK",
+  "SET_PENDING_ADMIN_OWNER_CHECK",
+  "SET_PENDING_IMPLEMENTATION_OWNER_CHECK",
+];
+
+// A decoded `Failure` event
+export interface ProxyFailureEvent {
+  error: string;
+  info: string;
+  detail: BigNumber;
+}
+
+// An implementation which accepts becoming the implementation of the proxy
+// by calling `_acceptImplementation` on it, like `DummyUpgradable`
+export interface UpgradableImplementation {
+  address: string;
+  upgrade(proxy: string, overrides?: Overrides): Promise<providers.TransactionResponse>;
+}
+
+// The storage layouts of the current and the new implementation, see `checkStorageLayout`
+export interface UpgradeLayouts {
+  previous: StorageLayout;
+  next: StorageLayout;
+}
+
+// Decodes all the `Failure` events emitted by the proxy in the transaction.
+// The unknown enum values are described by their numbers.
+export function proxyFailures(proxy: Proxy, receipt: ContractReceipt): ProxyFailureEvent[] {
+  const failureTopic = proxy.interface.getEventTopic("Failure");
+  return receipt.logs
+    .filter((log) => log.address == proxy.address && log.topics[0] == failureTopic)
+    .map((log) => {
+      const [error, info, detail] = proxy.interface.parseLog(log).args as [
+        BigNumber,
+        BigNumber,
+        BigNumber
+      ];
+      return {
+        error: PROXY_ERRORS[error.toNumber()] ?? error.toString(),
+        info: PROXY_FAILURE_INFOS[info.toNumber()] ?? info.toString(),
+        detail,
+      };
+    });
+}
+
+export function describeProxyFailure({ error, info, detail }: ProxyFailureEvent): string {
+  const details = detail.isZero() ? "" : `, detail ${detail.toString()}`;
+  return `${error} (${info}${details})`;
+}
+
+// Submits a transaction of the proxy admin functions, which don't revert on failures.
+// Throws if the transaction has failed or a `ProxyFailure` if the proxy has emitted a `Failure`.
+export async function submitProxyOk(
+  proxy: Proxy,
+  tx: Promise<providers.TransactionResponse>
+): Promise<ContractReceipt> {
+  const receipt = await submitOk(tx, proxy.provider);
+  const failures = proxyFailures(proxy, receipt);
+  if (failures.length > 0) {
+    const message = `Proxy failure: ${failures.map(describeProxyFailure).join(", ")}`;
+    throw new ProxyFailure(message, undefined, undefined, failures);
+  }
+  return receipt;
+}
+
+// The first step of an upgrade, the signer must be the proxy admin.
+// If the layouts are passed, they are checked before anything is submitted.
+export async function proposeImplementation(
+  proxy: Proxy,
+  implementation: string,
+  layouts?: UpgradeLayouts
+): Promise<void> {
+  if (layouts !== undefined) checkStorageLayout(layouts.previous, layouts.next);
+  await submitProxyOk(proxy, proxy._setPendingImplementation(implementation));
+  expectAddress("pending implementation", await proxy.pendingImplementation(), implementation);
+}
+
+// The second step of an upgrade, the implementation must be already proposed.
+// The implementation must be connected to the signer allowed to make it accept the proxy.
+export async function acceptImplementation(
+  proxy: Proxy,
+  implementation: UpgradableImplementation
+): Promise<void> {
+  await submitProxyOk(proxy, implementation.upgrade(proxy.address));
+  expectAddress("implementation", await proxy.implementation(), implementation.address);
+  expectAddress("pending implementation", await proxy.pendingImplementation());
+}
+
+// Proposes the implementation and makes it accept the proxy, the signer must be the proxy admin
+export async function upgradeProxy(
+  proxy: Proxy,
+  implementation: UpgradableImplementation,
+  layouts?: UpgradeLayouts
+): Promise<void> {
+  await proposeImplementation(proxy, implementation.address, layouts);
+  await acceptImplementation(proxy, implementation);
+}
+
+// The first step of an admin handover, the signer must be the proxy admin
+export async function proposeAdmin(proxy: Proxy, admin: string): Promise<void> {
+  await submitProxyOk(proxy, proxy._setPendingAdmin(admin));
+  expectAddress("pending admin", await proxy.pendingAdmin(), admin);
+}
+
+// The second step of an admin handover, the signer must be the pending admin
+export async function acceptAdmin(proxy: Proxy): Promise<void> {
+  const admin = await proxy.signer.getAddress();
+  await submitProxyOk(proxy, proxy._acceptAdmin());
+  expectAddress("admin", await proxy.admin(), admin);
+  expectAddress("pending admin", await proxy.pendingAdmin());
+}
+
+function expectAddress(name: string, actual: string, expected = constants.AddressZero): void {
+  if (utils.getAddress(actual) != utils.getAddress(expected)) {
+    throw new Error(`The proxy ${name} is ${actual}, expected ${expected}`);
+  }
+}
@@ -0,0 +1,137 @@
+import { constants, utils, BigNumber, BigNumberish, PopulatedTransaction } from "ethers";
+import { ENS } from "../contract-bindings/ethers/ENS";
+import { Registrar } from "../contract-bindings/ethers/Registrar";
+import { ENS__factory } from "../contract-bindings/ethers";
+import { Proposal, ProposalAction, ProposalBuilder } from "./governance";
+
+// A single change of the Registrar configuration made by a proposal action
+export interface RegistrarChange {
+  action: ProposalAction;
+  // The current and the new value, e.g. `Registration fee: 10.0 RAD -> 20.0 RAD`
+  preview: string;
+  // The reasons why the change may be harmful, empty if it looks safe
+  warnings: string[];
+}
+
+// Templates of the proposal actions calling the admin methods of the Registrar.
+// The Registrar admin must be the timelock of the governor, which the proposal is submitted to.
+// Every change is previewed against the current state of the Registrar and its ENS domain.
+export class RegistrarProposals {
+  readonly registrar: Registrar;
+
+  constructor(registrar: Registrar) {
+    this.registrar = registrar;
+  }
+
+  // The fee is in the smallest RAD units
+  async setRadRegistrationFee(fee: BigNumberish): Promise<RegistrarChange> {
+    const current = await this.registrar.registrationFeeRad();
+    const warnings = [];
+    if (BigNumber.from(fee).isZero()) {
+      warnings.push("The registration becomes free, the names can be squatted at no cost");
+    }
+    return this.change(
+      await this.registrar.populateTransaction.setRadRegistrationFee(fee),
+      `Registration fee: ${formatRad(current)} -> ${formatRad(fee)}`,
+      warnings
+    );
+  }
+
+  // The age is in blocks
+  async setMinCommitmentAge(minCommitmentAge: BigNumberish): Promise<RegistrarChange> {
+    const current = await this.registrar.minCommitmentAge();
+    const warnings = [];
+    if (BigNumber.from(minCommitmentAge).isZero()) {
+      warnings.push("The commitments can be revealed in the next block, which eases front-running");
+    }
+    return this.change(
+      await this.registrar.populateTransaction.setMinCommitmentAge(minCommitmentAge),
+      `Minimum commitment age: ${current.toString()} -> ${minCommitmentAge.toString()} blocks`,
+      warnings
+    );
+  }
+
+  // The TTL is in seconds
+  async setDomainTTL(ttl: BigNumberish): Promise<RegistrarChange> {
+    const current = await (await this.ens()).ttl(await this.registrar.radNode());
+    return this.change(
+      await this.registrar.populateTransaction.setDomainTTL(ttl),
+      `Domain TTL: ${current.toString()} -> ${ttl.toString()} seconds`,
+      []
+    );
+  }
+
+  async setDomainResolver(resolver: string): Promise<RegistrarChange> {
+    const current = await (await this.ens()).resolver(await this.registrar.radNode());
+    const warnings = [];
+    if (resolver == constants.AddressZero) {
+      warnings.push("The domain won't have a resolver, it won't resolve to any address");
+    }
+    return this.change(
+      await this.registrar.populateTransaction.setDomainResolver(resolver),
+      `Domain resolver: ${current} -> ${utils.getAddress(resolver)}`,
+      warnings
+    );
+  }
+
+  // Besides the ENS domain it transfers the ownership of the `eth` registrar token and
+  // of the commitments storage
+  async setDomainOwner(owner: string): Promise<RegistrarChange> {
+    const current = await (await this.ens()).owner(await this.registrar.radNode());
+    const warnings = [];
+    if (utils.getAddress(owner) != this.registrar.address) {
+      warnings.push(
+        "The domain is moved away from the Registrar, it won't be able to register names anymore"
+      );
+    }
+    if (owner == constants.AddressZero) {
+      warnings.push("The domain is given to the zero address, it will be lost forever");
+    }
+    return this.change(
+      await this.registrar.populateTransaction.setDomainOwner(owner),
+      `Domain owner: ${current} -> ${utils.getAddress(owner)}`,
+      warnings
+    );
+  }
+
+  async setAdmin(admin: string): Promise<RegistrarChange> {
+    const current = await this.registrar.admin();
+    const warnings = [];
+    if (utils.getAddress(admin) != current) {
+      warnings.push(`The Registrar won't be administered by its current admin ${current}`);
+    }
+    if (admin == constants.AddressZero) {
+      warnings.push("The admin is the zero address, the Registrar can't be ever changed again");
+    } else if ((await this.registrar.provider.getCode(admin)) == "0x") {
+      warnings.push(`The admin ${admin} isn't a contract, it's controlled by a single key`);
+    }
+    return this.change(
+      await this.registrar.populateTransaction.setAdmin(admin),
+      `Registrar admin: ${current} -> ${utils.getAddress(admin)}`,
+      warnings
+    );
+  }
+
+  private change(tx: PopulatedTransaction, preview: string, warnings: string[]): RegistrarChange {
+    const [action] = new ProposalBuilder().addCall(this.registrar, tx).build();
+    return { action, preview, warnings };
+  }
+
+  private async ens(): Promise<ENS> {
+    return ENS__factory.connect(await this.registrar.ens(), this.registrar.provider);
+  }
+}
+
+// Builds a proposal making all the changes, by default it's described by their previews
+export function registrarProposal(changes: RegistrarChange[], description?: string): Proposal {
+  if (changes.length == 0) throw new Error("Proposal must make changes");
+  const previews = changes.map((change) => change.preview);
+  return {
+    description: description ?? ["Registrar changes:", ...previews].join("\n"),
+    actions: changes.map((change) => change.action),
+  };
+}
+
+function formatRad(amount: BigNumberish): string {
+  return `${utils.formatUnits(amount, 18)} RAD`;
+}
@@ -0,0 +1,121 @@
+import { utils, BigNumber, Signer } from "ethers";
+import { Registrar } from "../contract-bindings/ethers/Registrar";
+import { IERC20__factory } from "../contract-bindings/ethers";
+import { DeploymentSteps } from "./deployment-steps";
+import { normalizeName } from "./ens";
+
+// A commitment to a future name registration
+export interface NameCommitment {
+  name: string;
+  owner: string;
+  // A random uint256 as a decimal string, it must be kept secret until the registration
+  salt: string;
+  commitment: string;
+  // The block in which the commitment has been made
+  blockNumber: number;
+  // The first block in which the name can be registered
+  registrableAt: number;
+}
+
+// Same as the commitment calculated by `Registrar.register`
+export function registrationCommitment(name: string, owner: string, salt: string): string {
+  return utils.solidityKeccak256(["string", "address", "uint256"], [name, owner, salt]);
+}
+
+// A client registering names in two phases, the commitment and the registration.
+// Every registration is stored in the steps under its name and owner. The salt is persisted
+// before the commitment is made, so when the registration is rerun after a failure,
+// the fee burned by the commitment isn't lost and no transaction is sent twice.
+// To survive a crash the steps must be stored in a file.
+export class RegistrarClient {
+  readonly registrar: Registrar;
+  readonly steps: DeploymentSteps;
+  // How often the chain is checked when waiting for the commitment to become old enough
+  readonly pollingInterval: number;
+
+  constructor(registrar: Registrar, steps: DeploymentSteps, pollingInterval = 10000) {
+    this.registrar = registrar.connect(steps.signer);
+    this.steps = steps;
+    this.pollingInterval = pollingInterval;
+  }
+
+  // Throws if the name can't be registered, it must be already normalized, see `normalizeName`
+  async checkName(name: string): Promise<void> {
+    const normalized = normalizeName(name);
+    if (normalized != name) {
+      throw new Error(`Name '${name}' isn't normalized, it should be '${normalized}'`);
+    }
+    if (!(await this.registrar.available(name))) {
+      throw new Error(`Name '${name}' is already registered`);
+    }
+  }
+
+  // Commits to a registration of the name, the owner defaults to the signer.
+  // The signer pays the registration fee, it's approved for the registrar if needed.
+  // If the commitment has been already made, it's only returned.
+  async commit(name: string, owner?: string): Promise<NameCommitment> {
+    const ownerAddr = owner ?? (await this.signer().getAddress());
+    const steps = this.nameSteps(name, ownerAddr);
+    if (!steps.isDone("commit")) await this.checkName(name);
+    const salt = await steps.value("salt", () =>
+      Promise.resolve(BigNumber.from(utils.randomBytes(32)).toString())
+    );
+    const commitment = registrationCommitment(name, ownerAddr, salt);
+    if (!steps.isDone("commit")) await this.approveFee(steps);
+    const { blockNumber } = await steps.submit("commit", () => this.registrar.commit(commitment));
+    if (blockNumber === undefined) {
+      throw new Error(`The commitment of name '${name}' has no block number recorded`);
+    }
+    const minCommitmentAge = await this.registrar.minCommitmentAge();
+    const registrableAt = minCommitmentAge.add(blockNumber + 1).toNumber();
+    return { name, owner: ownerAddr, salt, commitment, blockNumber, registrableAt };
+  }
+
+  // Registers the name, the owner defaults to the signer.
+  // Makes the commitment first unless it's already made and waits until it's old enough.
+  async register(name: string, owner?: string): Promise<NameCommitment> {
+    const commitment = await this.commit(name, owner);
+    const steps = this.nameSteps(name, commitment.owner);
+    if (!steps.isDone("register")) {
+      await this.checkName(name);
+      // The transaction will be included at least in the next block
+      await this.waitForBlock(commitment.registrableAt - 1);
+    }
+    await steps.submit("register", () =>
+      this.registrar.register(name, commitment.owner, commitment.salt)
+    );
+    return commitment;
+  }
+
+  private async approveFee(steps: DeploymentSteps): Promise<void> {
+    const fee = await this.registrar.registrationFeeRad();
+    const rad = IERC20__factory.connect(await this.registrar.rad(), this.signer());
+    const signerAddr = await this.signer().getAddress();
+    const balance = await rad.balanceOf(signerAddr);
+    if (balance.lt(fee)) {
+      throw new Error(
+        `Insufficient RAD balance, the fee is ${fee.toString()}, has ${balance.toString()}`
+      );
+    }
+    const hasAllowance = async (): Promise<boolean> =>
+      (await rad.allowance(signerAddr, this.registrar.address)).gte(fee);
+    if (!(await hasAllowance())) {
+      await steps.submit("approve", () => rad.approve(this.registrar.address, fee), hasAllowance);
+    }
+  }
+
+  private async waitForBlock(blockNumber: number): Promise<void> {
+    const provider = this.registrar.provider;
+    while ((await provider.getBlockNumber()) < blockNumber) {
+      await new Promise((resolve) => setTimeout(resolve, this.pollingInterval));
+    }
+  }
+
+  private nameSteps(name: string, owner: string): DeploymentSteps {
+    return this.steps.scoped(`${name} for ${utils.getAddress(owner)}`);
+  }
+
+  private signer(): Signer {
+    return this.steps.signer;
+  }
+}
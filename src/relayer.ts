@@ -0,0 +1,155 @@
+import {
+  utils,
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Overrides,
+} from "ethers";
+import { SignatureLike } from "@ethersproject/bytes";
+import { Governor } from "../contract-bindings/ethers/Governor";
+import { RadicleToken } from "../contract-bindings/ethers/RadicleToken";
+import { submitOk } from "./deploy";
+import { errorMessage } from "./errors";
+import { formatTime, ProposalState } from "./governance";
+import { ballotTypedData, delegationTypedData, recoverTypedDataSigner, TypedData } from "./utils";
+
+// A vote signed by the voter, see `ballotTypedData`
+export interface SignedVote {
+  voter: string;
+  proposalId: BigNumberish;
+  support: boolean;
+  signature: SignatureLike;
+}
+
+// A delegation signed by the delegator, see `delegationTypedData`
+export interface SignedDelegation {
+  delegator: string;
+  delegatee: string;
+  nonce: BigNumberish;
+  expiry: BigNumberish;
+  signature: SignatureLike;
+}
+
+export interface RelayedEntry<T> {
+  entry: T;
+  receipt: ContractReceipt;
+}
+
+export interface DroppedEntry<T> {
+  entry: T;
+  reason: string;
+}
+
+export interface RelayReport<T> {
+  relayed: RelayedEntry<T>[];
+  dropped: DroppedEntry<T>[];
+}
+
+// Submits the signed votes using `castVoteBySig`, the relayer pays for the gas.
+// The votes with invalid signatures, on proposals not being voted on,
+// of voters who have already voted or repeated in the batch are dropped without being submitted.
+export async function relayVotes(
+  governor: Governor,
+  votes: SignedVote[],
+  overrides: Overrides = {}
+): Promise<RelayReport<SignedVote>> {
+  const chainId = await governor.signer.getChainId();
+  const voted = new Set<string>();
+  return relay(votes, async (vote) => {
+    const { voter, proposalId, support, signature } = vote;
+    const data = ballotTypedData(governor.address, chainId, proposalId, support);
+    const invalid = checkSignature(data, voter, signature);
+    if (invalid) return invalid;
+    const state = (await governor.state(proposalId)) as ProposalState;
+    if (state != ProposalState.Active) {
+      return `Proposal ${proposalId.toString()} is ${ProposalState[state]}, not Active`;
+    }
+    const voteKey = `${utils.getAddress(voter)} ${proposalId.toString()}`;
+    if (voted.has(voteKey) || (await governor.getReceipt(proposalId, voter)).hasVoted) {
+      return `Voter ${voter} has already voted on proposal ${proposalId.toString()}`;
+    }
+    voted.add(voteKey);
+    const { v, r, s } = utils.splitSignature(signature);
+    return governor.castVoteBySig(proposalId, support, v, r, s, overrides);
+  });
+}
+
+// Submits the signed delegations using `delegateBySig`, the relayer pays for the gas.
+// The delegations with invalid signatures, expired or with nonces which can't be used next
+// are dropped without being submitted. The delegations of a single delegator are submitted
+// in the order of their nonces, so a batch may contain a sequence of them.
+export async function relayDelegations(
+  token: RadicleToken,
+  delegations: SignedDelegation[],
+  overrides: Overrides = {}
+): Promise<RelayReport<SignedDelegation>> {
+  const chainId = await token.signer.getChainId();
+  // The transaction will be included in a future block, which will have a greater timestamp
+  const now = (await token.provider.getBlock("latest")).timestamp + 1;
+  const nextNonces = new Map<string, BigNumber>();
+  const sorted = [...delegations].sort((a, b) => {
+    const byNonce = BigNumber.from(a.nonce).sub(b.nonce);
+    return byNonce.isNegative() ? -1 : byNonce.isZero() ? 0 : 1;
+  });
+  return relay(sorted, async (delegation) => {
+    const { delegator, delegatee, nonce, expiry, signature } = delegation;
+    const data = delegationTypedData(token.address, chainId, delegatee, nonce, expiry);
+    const invalid = checkSignature(data, delegator, signature);
+    if (invalid) return invalid;
+    if (BigNumber.from(expiry).lt(now)) {
+      return `Delegation of ${delegator} expired at ${formatTime(Number(expiry))}`;
+    }
+    const delegatorKey = utils.getAddress(delegator);
+    const nextNonce = nextNonces.get(delegatorKey) ?? (await token.nonces(delegator));
+    if (!nextNonce.eq(nonce)) {
+      return (
+        `Delegation of ${delegator} has nonce ${nonce.toString()}, ` +
+        `but the next usable one is ${nextNonce.toString()}`
+      );
+    }
+    nextNonces.set(delegatorKey, nextNonce.add(1));
+    const { v, r, s } = utils.splitSignature(signature);
+    return token.delegateBySig(delegatee, nonce, expiry, v, r, s, overrides);
+  });
+}
+
+function checkSignature(
+  data: TypedData,
+  expectedSigner: string,
+  signature: SignatureLike
+): string | undefined {
+  let signer;
+  try {
+    signer = recoverTypedDataSigner(data, signature);
+  } catch (e) {
+    return `Malformed signature of ${expectedSigner}`;
+  }
+  if (signer != utils.getAddress(expectedSigner)) {
+    return `Invalid signature of ${expectedSigner}, it's signed by ${signer}`;
+  }
+  return undefined;
+}
+
+// Submits the entries one by one. `send` either sends the transaction
+// or returns the reason why the entry is dropped.
+// A failed transaction doesn't stop the batch, the entry is reported as dropped.
+async function relay<T>(
+  entries: T[],
+  send: (entry: T) => Promise<string | ContractTransaction>
+): Promise<RelayReport<T>> {
+  const report: RelayReport<T> = { relayed: [], dropped: [] };
+  for (const entry of entries) {
+    try {
+      const result = await send(entry);
+      if (typeof result == "string") {
+        report.dropped.push({ entry, reason: result });
+      } else {
+        report.relayed.push({ entry, receipt: await submitOk(Promise.resolve(result)) });
+      }
+    } catch (e) {
+      report.dropped.push({ entry, reason: `Transaction failed: ${errorMessage(e)}` });
+    }
+  }
+  return report;
+}
@@ -0,0 +1,401 @@
+import assert from "assert";
+import { constants, providers, utils, BigNumber, BigNumberish } from "ethers";
+import {
+  ENS__factory,
+  IERC20__factory,
+  IERC721__factory,
+  Phase0__factory,
+  VestingToken__factory,
+} from "../contract-bindings/ethers";
+import { labelHash } from "./ens";
+import { totalVestingAmount, VestingRow } from "./vesting-batch";
+
+// The `CreateCall` library of the Safe contracts v1.3.0, deployed under this address on most networks
+export const CREATE_CALL_ADDRESS = "0x7cbB62EaA69F79e6873cD1ecB2392971036cFAa4";
+// The `MultiSend` library of the Safe contracts v1.3.0, deployed under this address on most networks.
+// Unlike `MultiSendCallOnly` used by the Safe apps, it executes the delegate calls too.
+export const MULTI_SEND_ADDRESS = "0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761";
+
+const CREATE_CALL = new utils.Interface([
+  "function performCreate(uint256 value, bytes deploymentData) returns (address newContract)",
+]);
+
+const MULTI_SEND = new utils.Interface(["function multiSend(bytes transactions)"]);
+
+const SAFE = new utils.Interface(["function nonce() view returns (uint256)"]);
+
+// The EIP-712 type of the Safe transactions signed by the owners
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export enum SafeOperation {
+  Call = 0,
+  DelegateCall = 1,
+}
+
+// A transaction of the batch executed by the Safe
+export interface SafeBatchTransaction {
+  to: string;
+  // In Wei
+  value: string;
+  data: string;
+  operation: SafeOperation;
+}
+
+// A transaction of the Safe Transaction Builder batch file
+export interface TransactionBuilderTransaction {
+  to: string;
+  // In Wei
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+// The Safe Transaction Builder batch file
+export interface SafeBatchFile {
+  version: string;
+  chainId: string;
+  // In milliseconds
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: TransactionBuilderTransaction[];
+}
+
+// The whole batch as a single Safe transaction, the arguments of `execTransaction`
+// without the signatures of the owners, which sign the `safeTxHash`
+export interface SafeTransactionFile {
+  chainId: string;
+  safe: string;
+  description: string;
+  transaction: {
+    to: string;
+    // In Wei
+    value: string;
+    data: string;
+    operation: SafeOperation;
+    safeTxGas: string;
+    baseGas: string;
+    gasPrice: string;
+    gasToken: string;
+    refundReceiver: string;
+    nonce: string;
+  };
+  safeTxHash: string;
+}
+
+// The addresses of the contracts deployed by Phase0
+export interface Phase0Addresses {
+  phase0: string;
+  token: string;
+  timelock: string;
+  governor: string;
+  registrar: string;
+}
+
+// A vesting from the CSV with the predicted address of its contract
+export interface ExportedVesting {
+  line: number;
+  beneficiary: string;
+  amount: BigNumber;
+  vesting: string;
+}
+
+// A batch of transactions to be reviewed and executed by a Safe multisig.
+// Nothing is signed or sent, the transactions are only encoded.
+// The contracts are created by the Safe itself with a delegate call of `CreateCall`,
+// so they're deployed under the addresses following the Safe's nonce, which are predicted
+// assuming that the Safe doesn't create any other contracts before the batch is executed.
+// The Transaction Builder app can't execute the delegate calls, so a batch creating contracts
+// is exported as a single Safe transaction delegating to `MultiSend`, see `toSafeTransaction`.
+export class SafeBatch {
+  readonly safe: string;
+  readonly chainId: number;
+  readonly createCall: string;
+  readonly transactions: SafeBatchTransaction[] = [];
+  // The descriptions of the transactions for the reviewers, in the same order
+  readonly descriptions: string[] = [];
+  private nonce: number;
+
+  constructor(safe: string, chainId: number, nonce: number, createCall = CREATE_CALL_ADDRESS) {
+    this.safe = utils.getAddress(safe);
+    this.chainId = chainId;
+    this.nonce = nonce;
+    this.createCall = utils.getAddress(createCall);
+  }
+
+  // Builds a batch starting at the current nonce of the Safe
+  static async forSafe(
+    provider: providers.Provider,
+    safe: string,
+    createCall?: string
+  ): Promise<SafeBatch> {
+    const { chainId } = await provider.getNetwork();
+    const nonce = await provider.getTransactionCount(safe);
+    return new SafeBatch(safe, chainId, nonce, createCall);
+  }
+
+  // The address of the contract, which will be created by the next creation in the batch
+  nextContractAddress(): string {
+    return utils.getContractAddress({ from: this.safe, nonce: this.nonce });
+  }
+
+  // Adds a creation of the contract, returns its predicted address.
+  // The transaction is built with the `getDeployTransaction` of the contract factory.
+  create(description: string, deployTransaction: providers.TransactionRequest): string {
+    const address = this.nextContractAddress();
+    const { value, data } = deployTransaction;
+    assert(data !== undefined, "The deployment transaction has no bytecode");
+    const createData = CREATE_CALL.encodeFunctionData("performCreate", [value ?? 0, data]);
+    const createDescription = `${description}, deploys ${address}`;
+    this.add(createDescription, this.createCall, createData, 0, SafeOperation.DelegateCall);
+    this.nonce++;
+    return address;
+  }
+
+  call(description: string, to: string, data: string, value: BigNumberish = 0): void {
+    this.add(description, to, data, value, SafeOperation.Call);
+  }
+
+  hasDelegateCalls(): boolean {
+    return this.transactions.some(({ operation }) => operation == SafeOperation.DelegateCall);
+  }
+
+  // The batch in the Transaction Builder format, it can't contain any contract creations
+  toFile(name: string, createdAt = Date.now()): SafeBatchFile {
+    if (this.hasDelegateCalls()) {
+      throw new Error(
+        "The batch creates contracts with delegate calls, which the Transaction Builder " +
+          "can't execute, it must be exported as a Safe transaction"
+      );
+    }
+    return {
+      version: "1.0",
+      chainId: this.chainId.toString(),
+      createdAt,
+      meta: {
+        name,
+        description: this.description(),
+        txBuilderVersion: "1.16.3",
+        createdFromSafeAddress: this.safe,
+        createdFromOwnerAddress: "",
+      },
+      transactions: this.transactions.map(({ to, value, data }) => ({
+        to,
+        value,
+        data,
+        contractMethod: null,
+        contractInputsValues: null,
+      })),
+    };
+  }
+
+  // The whole batch as a single Safe transaction delegating to `MultiSend`.
+  // The nonce is the Safe's own transaction counter, see `readSafeNonce`.
+  toSafeTransaction(safeNonce: BigNumberish, multiSend = MULTI_SEND_ADDRESS): SafeTransactionFile {
+    const packed = this.transactions.map(({ to, value, data, operation }) =>
+      utils.solidityPack(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [operation, to, value, utils.hexDataLength(data), data]
+      )
+    );
+    const transaction = {
+      to: utils.getAddress(multiSend),
+      value: "0",
+      data: MULTI_SEND.encodeFunctionData("multiSend", [utils.hexConcat(packed)]),
+      operation: SafeOperation.DelegateCall,
+      safeTxGas: "0",
+      baseGas: "0",
+      gasPrice: "0",
+      gasToken: constants.AddressZero,
+      refundReceiver: constants.AddressZero,
+      nonce: BigNumber.from(safeNonce).toString(),
+    };
+    const domain = { chainId: this.chainId, verifyingContract: this.safe };
+    return {
+      chainId: this.chainId.toString(),
+      safe: this.safe,
+      description: this.description(),
+      transaction,
+      safeTxHash: utils._TypedDataEncoder.hash(domain, SAFE_TX_TYPES, transaction),
+    };
+  }
+
+  // The numbered steps of the batch
+  private description(): string {
+    return this.descriptions.map((description, idx) => `${idx + 1}. ${description}`).join("\n");
+  }
+
+  private add(
+    description: string,
+    to: string,
+    data: string,
+    value: BigNumberish,
+    operation: SafeOperation
+  ): void {
+    this.transactions.push({
+      to: utils.getAddress(to),
+      value: BigNumber.from(value).toString(),
+      data: utils.hexlify(data),
+      operation,
+    });
+    this.descriptions.push(description);
+  }
+}
+
+// The nonce of the next Safe transaction, it's different from the Safe's account nonce
+export async function readSafeNonce(
+  provider: providers.Provider,
+  safe: string
+): Promise<BigNumber> {
+  const data = await provider.call({ to: safe, data: SAFE.encodeFunctionData("nonce") });
+  return BigNumber.from(SAFE.decodeFunctionResult("nonce", data)[0]);
+}
+
+// Exports the `deployPhase0` transaction, returns the predicted addresses of all its contracts
+export function exportPhase0(
+  batch: SafeBatch,
+  monadicAddr: string,
+  foundationAddr: string,
+  timelockDelay: number,
+  governorGuardian: string,
+  ensAddr: string,
+  ethLabel: string
+): Phase0Addresses {
+  const phase0 = batch.nextContractAddress();
+  if (BigNumber.from(phase0).shr(154).isZero()) {
+    throw new Error(
+      `Phase0 would be deployed under ${phase0}, which starts with 6 zero bits and is rejected. ` +
+        "The Safe must create another contract first."
+    );
+  }
+  batch.create(
+    "Deploy Phase0",
+    new Phase0__factory().getDeployTransaction(
+      monadicAddr,
+      foundationAddr,
+      timelockDelay,
+      governorGuardian,
+      ensAddr,
+      utils.namehash(ethLabel + ".eth"),
+      ethLabel
+    )
+  );
+  const [token, timelock, governor, registrar] = [1, 2, 3, 4].map((nonce) =>
+    utils.getContractAddress({ from: phase0, nonce })
+  );
+  return { phase0, token, timelock, governor, registrar };
+}
+
+// Exports the `deployVestingToken` transactions, returns the predicted vesting contract address
+export function exportVestingToken(
+  batch: SafeBatch,
+  tokenAddr: string,
+  owner: string,
+  beneficiary: string,
+  amount: BigNumberish,
+  vestingStartTime: BigNumberish,
+  vestingPeriod: BigNumberish,
+  cliffPeriod: BigNumberish
+): string {
+  const vestingAddr = batch.nextContractAddress();
+  const approve = IERC20__factory.createInterface().encodeFunctionData("approve", [
+    vestingAddr,
+    amount,
+  ]);
+  batch.call(`Approve ${amount.toString()} tokens for the vesting`, tokenAddr, approve);
+  return batch.create(
+    `Deploy the vesting for ${beneficiary}`,
+    new VestingToken__factory().getDeployTransaction(
+      tokenAddr,
+      owner,
+      beneficiary,
+      amount,
+      vestingStartTime,
+      vestingPeriod,
+      cliffPeriod
+    )
+  );
+}
+
+// Exports the `deployVestingBatch` transactions.
+// It's checked that the Safe has enough tokens for all the rows.
+export async function exportVestingBatch(
+  batch: SafeBatch,
+  provider: providers.Provider,
+  tokenAddr: string,
+  owner: string,
+  cliffPeriod: number,
+  vestingPeriod: number,
+  rows: VestingRow[]
+): Promise<ExportedVesting[]> {
+  const balance = await IERC20__factory.connect(tokenAddr, provider).balanceOf(batch.safe);
+  const required = totalVestingAmount(rows);
+  if (balance.lt(required)) {
+    throw new Error(
+      `Insufficient token balance, required ${required.toString()}, has ${balance.toString()}`
+    );
+  }
+  return rows.map(({ line, beneficiary, amount, vestingStartTime, ...periods }) => {
+    const vesting = exportVestingToken(
+      batch,
+      tokenAddr,
+      owner,
+      beneficiary,
+      amount,
+      vestingStartTime,
+      periods.vestingPeriod ?? vestingPeriod,
+      periods.cliffPeriod ?? cliffPeriod
+    );
+    return { line, beneficiary, amount, vesting };
+  });
+}
+
+// Exports the `transferEthDomain` transactions, the Safe must be the owner of the domain
+export async function exportTransferEthDomain(
+  batch: SafeBatch,
+  provider: providers.Provider,
+  ensAddr: string,
+  label: string,
+  newOwner: string
+): Promise<void> {
+  const ens = ENS__factory.connect(ensAddr, provider);
+  const ethRegistrarAddr = await ens.owner(utils.namehash("eth"));
+  assert.notStrictEqual(ethRegistrarAddr, constants.AddressZero, "No eth registrar found on ENS");
+  const labelNode = utils.namehash(label + ".eth");
+  const setRecord = ens.interface.encodeFunctionData("setRecord", [
+    labelNode,
+    newOwner,
+    newOwner,
+    0,
+  ]);
+  batch.call(`Give the ${label}.eth ENS record to ${newOwner}`, ensAddr, setRecord);
+  const transferFrom = IERC721__factory.createInterface().encodeFunctionData("transferFrom", [
+    batch.safe,
+    newOwner,
+    labelHash(label),
+  ]);
+  batch.call(
+    `Transfer the ${label}.eth registration to ${newOwner}`,
+    ethRegistrarAddr,
+    transferFrom
+  );
+}
@@ -0,0 +1,178 @@
+import {
+  providers,
+  utils,
+  BigNumber,
+  BigNumberish,
+  Bytes,
+  Signer,
+  Transaction,
+  VoidSigner,
+  Wallet,
+} from "ethers";
+
+// All the keys signing the network deployments are handled in this module.
+// The keys are read only from files or from hidden prompts, so they never appear in the shell
+// history, and they're never printed or written anywhere. An external signer keeps them to itself.
+
+// The parent path of the accounts derived from a mnemonic, the same as in Hardhat and MetaMask
+export const DEFAULT_HD_PATH = "m/44'/60'/0'/0";
+
+// Where the deployment signer comes from. The missing fields are asked for interactively.
+export type SignerSource =
+  | { type: "privateKey"; signingKey?: utils.SigningKey }
+  // The encrypted JSON keystore, it's decrypted with a password which is always asked for
+  | { type: "keystore"; json?: string }
+  // A BIP-39 mnemonic, the HD path is of the account, e.g. `m/44'/60'/0'/0/0`
+  | { type: "mnemonic"; mnemonic?: string; hdPath?: string }
+  // An external signer like Clef, the address is needed only if it manages multiple accounts
+  | { type: "jsonRpc"; url?: string; address?: string };
+
+// A signer with a known address connected to a provider
+export type DeploymentSigner = Wallet | ExternalSigner | SafeSigner;
+
+export function describeSignerSource(source: SignerSource): string {
+  switch (source.type) {
+    case "privateKey":
+      return "the private key";
+    case "keystore":
+      return "the JSON keystore";
+    case "mnemonic":
+      return `the mnemonic at ${source.hdPath ?? DEFAULT_HD_PATH}`;
+    case "jsonRpc":
+      return `the external signer at ${source.url ?? "unknown URL"}`;
+  }
+}
+
+// The address of the account in the keystore, it's readable without the password
+export function keystoreAddress(json: string): string {
+  return utils.getAddress(utils.getJsonWalletAddress(json));
+}
+
+// Throws if the password is invalid
+export async function decryptKeystore(json: string, password: string): Promise<utils.SigningKey> {
+  const wallet = await Wallet.fromEncryptedJson(json, password);
+  return new utils.SigningKey(wallet.privateKey);
+}
+
+export function mnemonicSigningKey(mnemonic: string, hdPath: string): utils.SigningKey {
+  return new utils.SigningKey(utils.HDNode.fromMnemonic(mnemonic).derivePath(hdPath).privateKey);
+}
+
+// The addresses of the accounts `<parentPath>/0` to `<parentPath>/<count - 1>`
+export function mnemonicAddresses(mnemonic: string, parentPath: string, count: number): string[] {
+  const parent = utils.HDNode.fromMnemonic(mnemonic).derivePath(parentPath);
+  return Array.from({ length: count }, (_, index) => parent.derivePath(index.toString()).address);
+}
+
+// A signer delegating the signing to an external process over JSON-RPC, e.g. Clef.
+// It uses the Clef API, `account_list`, `account_signTransaction` and `account_signData`.
+// The signed transactions are checked and sent by the provider.
+export class ExternalSigner extends Signer {
+  readonly address: string;
+  readonly provider: providers.Provider;
+  readonly signerRpc: providers.JsonRpcProvider;
+
+  constructor(address: string, signerRpc: providers.JsonRpcProvider, provider: providers.Provider) {
+    super();
+    this.address = utils.getAddress(address);
+    this.signerRpc = signerRpc;
+    this.provider = provider;
+  }
+
+  // Uses the only account of the external signer or the given one, which it must manage
+  static async connect(
+    signerRpc: providers.JsonRpcProvider,
+    provider: providers.Provider,
+    address?: string
+  ): Promise<ExternalSigner> {
+    const accounts = ((await signerRpc.send("account_list", [])) as string[]).map((account) =>
+      utils.getAddress(account)
+    );
+    if (address === undefined && accounts.length != 1) {
+      throw new Error(`The external signer has ${accounts.length} accounts, choose one of them`);
+    }
+    const account = address === undefined ? accounts[0] : utils.getAddress(address);
+    if (!accounts.includes(account)) {
+      throw new Error(`The external signer doesn't manage the account ${account}`);
+    }
+    return new ExternalSigner(account, signerRpc, provider);
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.address);
+  }
+
+  async signMessage(message: Bytes | string): Promise<string> {
+    const data = typeof message == "string" ? utils.toUtf8Bytes(message) : message;
+    const args = ["text/plain", this.address, utils.hexlify(data)];
+    return (await this.signerRpc.send("account_signData", args)) as string;
+  }
+
+  async signTransaction(transaction: providers.TransactionRequest): Promise<string> {
+    const tx = await utils.resolveProperties(transaction);
+    const chainId = tx.chainId ?? (await this.getChainId());
+    const request = {
+      ...providers.JsonRpcProvider.hexlifyTransaction(tx, { from: true, chainId: true }),
+      from: this.address,
+      chainId: utils.hexValue(chainId),
+    };
+    const { raw } = (await this.signerRpc.send("account_signTransaction", [request])) as {
+      raw: string;
+    };
+    const signed = utils.parseTransaction(raw);
+    if (signed.from === undefined || utils.getAddress(signed.from) != this.address) {
+      throw new Error(
+        `The external signer has signed the transaction as ${signed.from ?? "nobody"}`
+      );
+    }
+    const changed = changedFields({ ...tx, chainId }, signed);
+    if (changed.length > 0) {
+      throw new Error(
+        `The external signer has signed a different transaction, changing its ${changed.join(", ")}`
+      );
+    }
+    return raw;
+  }
+
+  connect(provider: providers.Provider): ExternalSigner {
+    return new ExternalSigner(this.address, this.signerRpc, provider);
+  }
+}
+
+// The fields of the signed transaction which differ from the requested one,
+// the missing numbers are treated as 0, e.g. the fees of the other transaction type
+function changedFields(requested: providers.TransactionRequest, signed: Transaction): string[] {
+  const to = requested.to === undefined ? undefined : utils.getAddress(requested.to);
+  const numbersEqual = (a?: BigNumberish | null, b?: BigNumberish | null): boolean =>
+    BigNumber.from(a ?? 0).eq(b ?? 0);
+  const fields: [string, boolean][] = [
+    ["to", (signed.to ?? undefined) === to],
+    ["data", utils.hexlify(requested.data ?? "0x") == signed.data],
+    ["value", numbersEqual(requested.value, signed.value)],
+    ["nonce", numbersEqual(requested.nonce, signed.nonce)],
+    ["gasLimit", numbersEqual(requested.gasLimit, signed.gasLimit)],
+    ["chainId", numbersEqual(requested.chainId, signed.chainId)],
+    ["type", numbersEqual(requested.type, signed.type)],
+    ["gasPrice", numbersEqual(requested.gasPrice, signed.gasPrice)],
+    ["maxFeePerGas", numbersEqual(requested.maxFeePerGas, signed.maxFeePerGas)],
+    [
+      "maxPriorityFeePerGas",
+      numbersEqual(requested.maxPriorityFeePerGas, signed.maxPriorityFeePerGas),
+    ],
+  ];
+  return fields.filter(([, equal]) => !equal).map(([field]) => field);
+}
+
+// The Safe multisig exporting the transactions as a batch, it can't sign anything,
+// but the calls made with it see the Safe as the caller
+export class SafeSigner extends VoidSigner {
+  declare readonly provider: providers.Provider;
+
+  constructor(address: string, provider: providers.Provider) {
+    super(address, provider);
+  }
+
+  connect(provider: providers.Provider): SafeSigner {
+    return new SafeSigner(this.address, provider);
+  }
+}
@@ -0,0 +1,149 @@
+// The storage layout of a contract as generated by the Solidity compiler
+export interface StorageLayout {
+  storage: StorageVariable[];
+  // Null if the contract has no storage variables
+  types: Record<string, StorageType> | null;
+}
+
+export interface StorageVariable {
+  label: string;
+  // The byte offset within the slot
+  offset: number;
+  // The slot number as a decimal string
+  slot: string;
+  // The ID of the type in `StorageLayout.types`
+  type: string;
+}
+
+export interface StorageType {
+  encoding: string;
+  label: string;
+  numberOfBytes: string;
+  // The type of the array elements
+  base?: string;
+  key?: string;
+  value?: string;
+  // The fields of a struct, with slots relative to the beginning of the struct
+  members?: StorageVariable[];
+}
+
+// The compiler output as stored in the Hardhat build info files
+export interface BuildInfo {
+  output: {
+    contracts: Record<string, Record<string, { abi: unknown; storageLayout?: StorageLayout }>>;
+  };
+}
+
+// The variables of `ProxyAdminStorage`, which must be in the same slots in every implementation
+export const PROXY_ADMIN_STORAGE = [
+  "admin",
+  "pendingAdmin",
+  "implementation",
+  "pendingImplementation",
+];
+
+// Extracts the layout of the contract named `path/to/Source.sol:Contract` from the build info
+export function buildInfoStorageLayout(
+  buildInfo: BuildInfo,
+  fullyQualifiedName: string
+): StorageLayout {
+  const separator = fullyQualifiedName.lastIndexOf(":");
+  const source = fullyQualifiedName.slice(0, separator);
+  const contract = fullyQualifiedName.slice(separator + 1);
+  const layout = buildInfo.output.contracts[source]?.[contract]?.storageLayout;
+  if (layout === undefined) {
+    throw new Error(`No storage layout of ${fullyQualifiedName} in the build info`);
+  }
+  return layout;
+}
+
+// Lists the problems making the next version of the contract
+// unable to take over the storage of the previous one behind a `Proxy`.
+// Any variable of the previous version which got removed, moved, retyped or shrunk is reported
+// and so is any variable of the next version colliding with the `ProxyAdminStorage` slots.
+// Variables may be renamed only together with a change of their slot.
+export function storageLayoutIssues(previous: StorageLayout, next: StorageLayout): string[] {
+  const issues = proxyAdminCollisions(next);
+  for (const variable of previous.storage) {
+    const nextVariable = next.storage.find(({ label }) => label == variable.label);
+    if (nextVariable === undefined) {
+      issues.push(`'${variable.label}' in ${position(variable)} has been removed`);
+      continue;
+    }
+    if (nextVariable.slot != variable.slot || nextVariable.offset != variable.offset) {
+      issues.push(
+        `'${variable.label}' has been moved from ${position(variable)} to ${position(nextVariable)}`
+      );
+    }
+    const typeName = describeType(previous, variable.type);
+    const nextTypeName = describeType(next, nextVariable.type);
+    if (typeName == nextTypeName) continue;
+    const size = typeSize(previous, variable.type);
+    const nextSize = typeSize(next, nextVariable.type);
+    const change = nextSize < size ? `shrunk from ${size} to ${nextSize} bytes` : "retyped";
+    issues.push(`'${variable.label}' has been ${change}, from ${typeName} to ${nextTypeName}`);
+  }
+  return issues;
+}
+
+// Throws an error listing all the storage layout issues if there are any
+export function checkStorageLayout(previous: StorageLayout, next: StorageLayout): void {
+  const issues = storageLayoutIssues(previous, next);
+  if (issues.length > 0) {
+    throw new Error(["Incompatible storage layouts:", ...issues].join("\n  "));
+  }
+}
+
+function proxyAdminCollisions(layout: StorageLayout): string[] {
+  const issues = [];
+  for (const variable of layout.storage) {
+    const slot = Number(variable.slot);
+    const slotsUsed = Math.ceil((variable.offset + typeSize(layout, variable.type)) / 32);
+    if (slot >= PROXY_ADMIN_STORAGE.length) continue;
+    const adminSlot = PROXY_ADMIN_STORAGE.indexOf(variable.label);
+    const isAdminVariable =
+      adminSlot == slot &&
+      variable.offset == 0 &&
+      slotsUsed == 1 &&
+      describeType(layout, variable.type) == "address";
+    if (!isAdminVariable) {
+      issues.push(
+        `'${variable.label}' in ${position(variable)} collides with the ProxyAdminStorage ` +
+          `'${PROXY_ADMIN_STORAGE[slot]}'`
+      );
+    }
+  }
+  return issues;
+}
+
+// Describes the type including the layouts of the nested structs,
+// so the types are equal when their descriptions are
+function describeType(layout: StorageLayout, typeId: string): string {
+  const type = layout.types?.[typeId];
+  if (type === undefined) return typeId;
+  if (type.members !== undefined) {
+    const members = type.members.map(
+      (member) => `${describeType(layout, member.type)} ${member.label} @ ${position(member)}`
+    );
+    return `${type.label} { ${members.join("; ")} }`;
+  }
+  if (type.key !== undefined && type.value !== undefined) {
+    const key = describeType(layout, type.key);
+    return `mapping(${key} => ${describeType(layout, type.value)})`;
+  }
+  if (type.base !== undefined && type.encoding == "inplace") {
+    const length = type.label.slice(type.label.lastIndexOf("["));
+    return `${describeType(layout, type.base)}${length}`;
+  }
+  if (type.base !== undefined) return `${describeType(layout, type.base)}[]`;
+  return type.label;
+}
+
+function typeSize(layout: StorageLayout, typeId: string): number {
+  return Number(layout.types?.[typeId]?.numberOfBytes ?? 32);
+}
+
+function position(variable: StorageVariable): string {
+  const offset = variable.offset == 0 ? "" : ` offset ${variable.offset}`;
+  return `slot ${variable.slot}${offset}`;
+}
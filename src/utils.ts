@@ -1,4 +1,7 @@
-import { utils, BigNumberish } from "ethers";
+import { Signature, SignatureLike } from "@ethersproject/bytes";
+import { providers, utils, BigNumber, BigNumberish, Wallet } from "ethers";
+import { RadicleToken } from "../contract-bindings/ethers/RadicleToken";
+import { Registrar } from "../contract-bindings/ethers/Registrar";
 
 export function daiPermitDigest(
   daiContract: string,
@@ -28,3 +31,261 @@ export function daiPermitDigest(
   const hash = utils._TypedDataEncoder.hash(domain, types, value);
   return utils.arrayify(hash);
 }
+
+// EIP-712 typed data, which can be hashed, signed or passed to a wallet for signing
+export interface TypedData {
+  domain: { name: string; version?: string; chainId: BigNumberish; verifyingContract: string };
+  types: Record<string, { name: string; type: string }[]>;
+  value: Record<string, unknown>;
+}
+
+// The typed data of a vote signed for `Governor.castVoteBySig`
+export function ballotTypedData(
+  governor: string,
+  chainId: BigNumberish,
+  proposalId: BigNumberish,
+  support: boolean
+): TypedData {
+  return {
+    domain: { name: "Radicle Governor", chainId, verifyingContract: governor },
+    types: {
+      Ballot: [
+        { name: "proposalId", type: "uint256" },
+        { name: "support", type: "bool" },
+      ],
+    },
+    value: { proposalId, support },
+  };
+}
+
+// The typed data of a delegation signed for `RadicleToken.delegateBySig`
+export function delegationTypedData(
+  token: string,
+  chainId: BigNumberish,
+  delegatee: string,
+  nonce: BigNumberish,
+  expiry: BigNumberish
+): TypedData {
+  return {
+    domain: { name: "Radicle", chainId, verifyingContract: token },
+    types: {
+      Delegation: [
+        { name: "delegatee", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+      ],
+    },
+    value: { delegatee, nonce, expiry },
+  };
+}
+
+// The typed data of an approval signed for `RadicleToken.permit`
+export function permitTypedData(
+  token: string,
+  chainId: BigNumberish,
+  owner: string,
+  spender: string,
+  value: BigNumberish,
+  nonce: BigNumberish,
+  deadline: BigNumberish
+): TypedData {
+  return {
+    domain: { name: "Radicle", chainId, verifyingContract: token },
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    value: { owner, spender, value, nonce, deadline },
+  };
+}
+
+export function typedDataDigest({ domain, types, value }: TypedData): Uint8Array {
+  return utils.arrayify(utils._TypedDataEncoder.hash(domain, types, value));
+}
+
+// The typed data of a commitment signed for `Registrar.commitBySig`
+export function commitTypedData(
+  registrar: string,
+  chainId: BigNumberish,
+  commitment: string,
+  nonce: BigNumberish,
+  expiry: BigNumberish,
+  submissionFee: BigNumberish
+): TypedData {
+  return {
+    domain: { name: "Registrar", chainId, verifyingContract: registrar },
+    types: {
+      Commit: [
+        { name: "commitment", type: "bytes32" },
+        { name: "nonce", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+        { name: "submissionFee", type: "uint256" },
+      ],
+    },
+    value: { commitment, nonce, expiry, submissionFee },
+  };
+}
+
+// A wallet or a raw signing key
+export type TypedDataSigner = Wallet | providers.JsonRpcSigner | utils.SigningKey;
+
+// Signs the typed data with a wallet or with a raw signing key.
+// The returned signature is split, so it can be passed as `v`, `r` and `s` to the contracts.
+export async function signTypedData(signer: TypedDataSigner, data: TypedData): Promise<Signature> {
+  if (signer instanceof utils.SigningKey) {
+    return utils.splitSignature(signer.signDigest(typedDataDigest(data)));
+  }
+  return utils.splitSignature(await signer._signTypedData(data.domain, data.types, data.value));
+}
+
+// Returns the address which has signed the typed data
+export function recoverTypedDataSigner(data: TypedData, signature: SignatureLike): string {
+  return utils.verifyTypedData(data.domain, data.types, data.value, signature);
+}
+
+// The arguments of `Registrar.commitBySig`
+export type CommitBySigArgs = [
+  commitment: string,
+  nonce: BigNumber,
+  expiry: BigNumber,
+  submissionFee: BigNumber,
+  v: number,
+  r: string,
+  s: string
+];
+
+// The arguments of `RadicleToken.permit`
+export type PermitArgs = [
+  owner: string,
+  spender: string,
+  value: BigNumber,
+  deadline: BigNumber,
+  v: number,
+  r: string,
+  s: string
+];
+
+// The arguments of `Registrar.commitBySigWithPermit`
+export type CommitBySigWithPermitArgs = [
+  ...commit: CommitBySigArgs,
+  owner: string,
+  value: BigNumber,
+  deadline: BigNumber,
+  permitV: number,
+  permitR: string,
+  permitS: string
+];
+
+// Signs a commitment, which anybody can submit with `registrar.commitBySig(...args)`.
+// The signer pays the registration fee and the submission fee for the submitter,
+// so the registrar must be allowed to spend the signer's RAD, see `signCommitBySigWithPermit`.
+export async function signCommitBySig(
+  registrar: Registrar,
+  signer: TypedDataSigner,
+  commitment: string,
+  expiry: BigNumberish,
+  submissionFee: BigNumberish
+): Promise<CommitBySigArgs> {
+  const chainId = (await registrar.provider.getNetwork()).chainId;
+  const nonce = await registrar.nonces(await signerAddress(signer));
+  const data = commitTypedData(
+    registrar.address,
+    chainId,
+    commitment,
+    nonce,
+    expiry,
+    submissionFee
+  );
+  const { v, r, s } = await signTypedData(signer, data);
+  const [expiryNum, submissionFeeNum] = [BigNumber.from(expiry), BigNumber.from(submissionFee)];
+  return [commitment, nonce, expiryNum, submissionFeeNum, v, r, s];
+}
+
+// Signs a permit, which anybody can submit with `token.permit(...args)`
+export async function signPermit(
+  token: RadicleToken,
+  signer: TypedDataSigner,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<PermitArgs> {
+  const owner = await signerAddress(signer);
+  const nonce = await token.nonces(owner);
+  const data = permitTypedData(
+    token.address,
+    await tokenChainId(token),
+    owner,
+    spender,
+    value,
+    nonce,
+    deadline
+  );
+  const { v, r, s } = await signTypedData(signer, data);
+  return [owner, spender, BigNumber.from(value), BigNumber.from(deadline), v, r, s];
+}
+
+// Signs a commitment together with a permit for the registrar to spend exactly the registration
+// and submission fees. Anybody can submit it with `registrar.commitBySigWithPermit(...args)`.
+export async function signCommitBySigWithPermit(
+  registrar: Registrar,
+  token: RadicleToken,
+  signer: TypedDataSigner,
+  commitment: string,
+  expiry: BigNumberish,
+  submissionFee: BigNumberish
+): Promise<CommitBySigWithPermitArgs> {
+  const value = (await registrar.registrationFeeRad()).add(submissionFee);
+  const permit = await signPermit(token, signer, registrar.address, value, expiry);
+  const commit = await signCommitBySig(registrar, signer, commitment, expiry, submissionFee);
+  const [owner, , permitValue, deadline, permitV, permitR, permitS] = permit;
+  return [...commit, owner, permitValue, deadline, permitV, permitR, permitS];
+}
+
+// Returns the address which has signed the `commitBySig` arguments.
+// If the signature is invalid, it's a random address, which doesn't match the expected signer.
+export async function recoverCommitBySigSigner(
+  registrar: Registrar,
+  args: CommitBySigArgs
+): Promise<string> {
+  const [commitment, nonce, expiry, submissionFee, v, r, s] = args;
+  const chainId = (await registrar.provider.getNetwork()).chainId;
+  const data = commitTypedData(
+    registrar.address,
+    chainId,
+    commitment,
+    nonce,
+    expiry,
+    submissionFee
+  );
+  return recoverTypedDataSigner(data, { v, r, s });
+}
+
+// Returns the address which has signed the `permit` arguments with the owner's current nonce.
+// The permit is valid only if it's the owner.
+export async function recoverPermitSigner(token: RadicleToken, args: PermitArgs): Promise<string> {
+  const [owner, spender, value, deadline, v, r, s] = args;
+  const nonce = await token.nonces(owner);
+  const chainId = await tokenChainId(token);
+  const data = permitTypedData(token.address, chainId, owner, spender, value, nonce, deadline);
+  return recoverTypedDataSigner(data, { v, r, s });
+}
+
+async function signerAddress(signer: TypedDataSigner): Promise<string> {
+  if (signer instanceof utils.SigningKey) return utils.computeAddress(signer.publicKey);
+  return signer.getAddress();
+}
+
+// Reads the chain ID from the provider and checks if the token's domain separator matches it
+async function tokenChainId(token: RadicleToken): Promise<number> {
+  const chainId = (await token.provider.getNetwork()).chainId;
+  const domain = { name: "Radicle", chainId, verifyingContract: token.address };
+  if (utils._TypedDataEncoder.hashDomain(domain) != (await token.DOMAIN_SEPARATOR())) {
+    throw new Error(`The token domain separator doesn't match the chain ID ${chainId}`);
+  }
+  return chainId;
+}
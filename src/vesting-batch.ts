@@ -0,0 +1,168 @@
+import { constants, utils, BigNumber, Signer } from "ethers";
+import { VestingToken } from "../contract-bindings/ethers/VestingToken";
+import { IERC20__factory } from "../contract-bindings/ethers";
+import { deployVestingToken } from "./deploy";
+import { parseAddress, parseDays, parseTimestamp } from "./deployment-manifest";
+import { DeploymentSteps } from "./deployment-steps";
+
+// The columns of the vesting CSV, the last two are optional overrides of the batch defaults
+export const VESTING_CSV_COLUMNS = [
+  "beneficiary",
+  "amount",
+  "startDate",
+  "cliffPeriodDays",
+  "vestingPeriodDays",
+];
+
+// A single vesting from the CSV
+export interface VestingRow {
+  // The line in the CSV file, used to identify the row in the errors and the report
+  line: number;
+  beneficiary: string;
+  // In the smallest token units
+  amount: BigNumber;
+  vestingStartTime: number;
+  // In seconds, undefined if not overridden in the row
+  cliffPeriod?: number;
+  // In seconds, undefined if not overridden in the row
+  vestingPeriod?: number;
+}
+
+export interface VestingReportEntry {
+  line: number;
+  beneficiary: string;
+  amount: BigNumber;
+  vesting: VestingToken;
+}
+
+// Parses the CSV with a header and the `VESTING_CSV_COLUMNS` columns in any order.
+// The amounts are in whole tokens, they may have fractional parts up to the token decimals.
+// The dates are in the ISO-8601 format and must be in the past.
+// All the rows are validated and if any of them is invalid, all the errors are reported.
+export function parseVestingCsv(csv: string, decimals: number, now: number): VestingRow[] {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((text, idx) => ({ line: idx + 1, cells: text.split(",").map((cell) => cell.trim()) }))
+    .filter(({ cells }) => cells.some((cell) => cell != ""));
+  const header = lines.shift();
+  if (header === undefined) throw new Error("The vesting CSV is empty");
+  const errors = [];
+  for (const column of header.cells) {
+    if (!VESTING_CSV_COLUMNS.includes(column)) errors.push(`Unknown column '${column}'`);
+  }
+  for (const column of VESTING_CSV_COLUMNS.slice(0, 3)) {
+    if (!header.cells.includes(column)) errors.push(`Missing column '${column}'`);
+  }
+  if (errors.length > 0) throw new Error(["Invalid vesting CSV header:", ...errors].join("\n  "));
+
+  const rows = [];
+  for (const { line, cells } of lines) {
+    const cell = (column: string): string => cells[header.cells.indexOf(column)] ?? "";
+    const rowErrors = [];
+    if (cells.length != header.cells.length) {
+      rowErrors.push(`expected ${header.cells.length} cells, found ${cells.length}`);
+    }
+    const beneficiary = parseAddress(cell("beneficiary"));
+    if (beneficiary === undefined || beneficiary == constants.AddressZero) {
+      rowErrors.push(`invalid beneficiary '${cell("beneficiary")}'`);
+    }
+    const amount = parseAmount(cell("amount"), decimals);
+    if (amount === undefined || amount.lte(0)) {
+      rowErrors.push(`invalid amount '${cell("amount")}'`);
+    }
+    const vestingStartTime = parseTimestamp(cell("startDate"));
+    if (vestingStartTime === undefined || vestingStartTime >= now) {
+      rowErrors.push(`invalid start date '${cell("startDate")}', it must be in the past`);
+    }
+    const cliffPeriod = parseOptionalDays(cell("cliffPeriodDays"));
+    if (cliffPeriod === null || (cliffPeriod !== undefined && cliffPeriod < 0)) {
+      rowErrors.push(`invalid cliff period '${cell("cliffPeriodDays")}'`);
+    }
+    const vestingPeriod = parseOptionalDays(cell("vestingPeriodDays"));
+    if (vestingPeriod === null || (vestingPeriod !== undefined && vestingPeriod <= 0)) {
+      rowErrors.push(`invalid vesting period '${cell("vestingPeriodDays")}'`);
+    }
+    if (
+      rowErrors.length > 0 ||
+      beneficiary === undefined ||
+      amount === undefined ||
+      vestingStartTime === undefined ||
+      cliffPeriod === null ||
+      vestingPeriod === null
+    ) {
+      errors.push(...rowErrors.map((error) => `line ${line}: ${error}`));
+      continue;
+    }
+    rows.push({ line, beneficiary, amount, vestingStartTime, cliffPeriod, vestingPeriod });
+  }
+  if (errors.length > 0) throw new Error(["Invalid vesting CSV:", ...errors].join("\n  "));
+  if (rows.length == 0) throw new Error("The vesting CSV has no rows");
+  return rows;
+}
+
+export function totalVestingAmount(rows: VestingRow[]): BigNumber {
+  return rows.reduce((total, row) => total.add(row.amount), constants.Zero);
+}
+
+// Deploys a vesting contract for each row, the signer provides all the vested tokens.
+// Before anything is deployed it's checked that the signer has enough tokens for all the rows.
+// When resumed with the same steps, the already deployed vestings are skipped.
+export async function deployVestingBatch(
+  signer: Signer,
+  tokenAddr: string,
+  owner: string,
+  cliffPeriod: number,
+  vestingPeriod: number,
+  rows: VestingRow[],
+  steps = new DeploymentSteps(signer)
+): Promise<VestingReportEntry[]> {
+  const rowSteps = (row: VestingRow): DeploymentSteps =>
+    steps.scoped(`row ${row.line} for ${row.beneficiary}`);
+  const pending = rows.filter((row) => !rowSteps(row).isDone("vesting"));
+  const token = IERC20__factory.connect(tokenAddr, signer);
+  const balance = await token.balanceOf(await signer.getAddress());
+  const required = totalVestingAmount(pending);
+  if (balance.lt(required)) {
+    throw new Error(
+      `Insufficient token balance, required ${required.toString()}, has ${balance.toString()}`
+    );
+  }
+  const report = [];
+  for (const row of rows) {
+    const vesting = await deployVestingToken(
+      signer,
+      tokenAddr,
+      owner,
+      row.beneficiary,
+      row.amount,
+      row.vestingStartTime,
+      row.vestingPeriod ?? vestingPeriod,
+      row.cliffPeriod ?? cliffPeriod,
+      rowSteps(row)
+    );
+    const { line, beneficiary, amount } = row;
+    report.push({ line, beneficiary, amount, vesting });
+  }
+  return report;
+}
+
+export function vestingReportCsv(report: VestingReportEntry[], decimals: number): string {
+  const lines = report.map(({ line, beneficiary, amount, vesting }) =>
+    [line, beneficiary, utils.formatUnits(amount, decimals), vesting.address].join(",")
+  );
+  return ["line,beneficiary,amount,vesting", ...lines].join("\n") + "\n";
+}
+
+function parseAmount(input: string, decimals: number): BigNumber | undefined {
+  try {
+    return utils.parseUnits(input, decimals);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Returns undefined if the cell is empty and null if it's invalid
+function parseOptionalDays(input: string): number | undefined | null {
+  if (input == "") return undefined;
+  return parseDays(input) ?? null;
+}
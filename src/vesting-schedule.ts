@@ -0,0 +1,131 @@
+import { constants, BigNumber, BigNumberish } from "ethers";
+import { VestingToken } from "../contract-bindings/ethers/VestingToken";
+
+const DAY_SECS = 24 * 60 * 60;
+
+// The parameters of a vesting, same as the `deployVestingToken` ones
+export interface VestingParams {
+  amount: BigNumberish;
+  vestingStartTime: number;
+  // In seconds
+  vestingPeriod: number;
+  // In seconds
+  cliffPeriod: number;
+}
+
+// The amount vested during a single period of the schedule
+export interface VestingScheduleEntry {
+  start: number;
+  end: number;
+  vested: BigNumber;
+  // The total amount vested at the end of the period
+  totalVested: BigNumber;
+}
+
+// The amounts transferred by `terminateVesting`
+export interface VestingTermination {
+  beneficiary: BigNumber;
+  owner: BigNumber;
+}
+
+// The vesting schedule of a `VestingToken` calculated exactly like by the contract.
+// It can be created from the deployment parameters to preview the schedule before deployment.
+// All the timestamps are in seconds.
+export class VestingSchedule {
+  readonly amount: BigNumber;
+  readonly vestingStartTime: number;
+  readonly vestingPeriod: number;
+  readonly cliffPeriod: number;
+  // The amount already withdrawn by the beneficiary
+  readonly withdrawn: BigNumber;
+  // Set if the vesting has been terminated, no more tokens vest
+  readonly interrupted: boolean;
+
+  constructor(params: VestingParams, withdrawn: BigNumberish = 0, interrupted = false) {
+    if (params.vestingPeriod <= 0) throw new Error("Vesting period must be positive");
+    this.amount = BigNumber.from(params.amount);
+    this.vestingStartTime = params.vestingStartTime;
+    this.vestingPeriod = params.vestingPeriod;
+    this.cliffPeriod = params.cliffPeriod;
+    this.withdrawn = BigNumber.from(withdrawn);
+    this.interrupted = interrupted;
+  }
+
+  // Reads the schedule and the current state of a deployed contract
+  static async fromContract(vesting: VestingToken): Promise<VestingSchedule> {
+    const params = {
+      amount: await vesting.totalVestingAmount(),
+      vestingStartTime: (await vesting.vestingStartTime()).toNumber(),
+      vestingPeriod: (await vesting.vestingPeriod()).toNumber(),
+      cliffPeriod: (await vesting.cliffPeriod()).toNumber(),
+    };
+    return new VestingSchedule(params, await vesting.withdrawn(), await vesting.interrupted());
+  }
+
+  // The time when the first tokens vest
+  cliffTime(): number {
+    return this.vestingStartTime + this.cliffPeriod;
+  }
+
+  // The time when all the tokens are vested
+  fullyVestedTime(): number {
+    return this.vestingStartTime + Math.max(this.cliffPeriod, this.vestingPeriod);
+  }
+
+  // The total amount vested at the given time, including the already withdrawn tokens.
+  // After the vesting has been interrupted, it's only the withdrawn amount.
+  vested(timestamp: number): BigNumber {
+    if (this.interrupted) return this.withdrawn;
+    const timePassed = timestamp - this.vestingStartTime;
+    if (timePassed < this.cliffPeriod || timePassed < 0) return constants.Zero;
+    if (timePassed < this.vestingPeriod) {
+      return this.amount.mul(timePassed).div(this.vestingPeriod);
+    }
+    return this.amount;
+  }
+
+  // Same as the contract `withdrawableBalance` at the given time
+  withdrawable(timestamp: number): BigNumber {
+    if (this.interrupted) return constants.Zero;
+    const vested = this.vested(timestamp);
+    return vested.isZero() ? vested : vested.sub(this.withdrawn);
+  }
+
+  // The amounts which `terminateVesting` would transfer at the given time
+  termination(timestamp: number): VestingTermination {
+    if (this.interrupted) throw new Error("The contract has been interrupted");
+    const beneficiary = this.withdrawable(timestamp);
+    const owner = this.amount.sub(this.withdrawn).sub(beneficiary);
+    return { beneficiary, owner };
+  }
+
+  // The amounts vested every day from the vesting start until everything is vested
+  daily(): VestingScheduleEntry[] {
+    return this.schedule((idx) => this.vestingStartTime + idx * DAY_SECS);
+  }
+
+  // The amounts vested every calendar month in UTC,
+  // from the vesting start until everything is vested
+  monthly(): VestingScheduleEntry[] {
+    const start = new Date(this.vestingStartTime * 1000);
+    return this.schedule((idx) => {
+      const date = new Date(start);
+      date.setUTCMonth(start.getUTCMonth() + idx);
+      return date.valueOf() / 1000;
+    });
+  }
+
+  // Builds the schedule of periods with boundaries given by `periodStart`
+  private schedule(periodStart: (idx: number) => number): VestingScheduleEntry[] {
+    const entries = [];
+    let totalVested = constants.Zero;
+    for (let idx = 0; periodStart(idx) < this.fullyVestedTime(); idx++) {
+      const start = periodStart(idx);
+      const end = Math.min(periodStart(idx + 1), this.fullyVestedTime());
+      const endVested = this.vested(end);
+      entries.push({ start, end, vested: endVested.sub(totalVested), totalVested: endVested });
+      totalVested = endVested;
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,54 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { expectBigNumberEq } from "./support";
+import { deployEthPool, deployRadicleToken } from "../src/deploy";
+import {
+  appendToAddressBook,
+  createdContractRecord,
+  deploymentRecord,
+  loadDeployment,
+  readAddressBook,
+} from "../src/address-book";
+
+describe("Address book", function () {
+  it("Records the deployments and loads them as typed contracts", async function () {
+    const [deployer] = await ethers.getSigners();
+    const dir = mkdtempSync(path.join(tmpdir(), "address-book-"));
+    const pool1 = await deployEthPool(deployer, 10);
+    const pool2 = await deployEthPool(deployer, 20);
+    const token = await deployRadicleToken(deployer, deployer.address);
+    const pool1Record = await deploymentRecord("funding pool", "EthPool", pool1);
+    appendToAddressBook("test", pool1Record, dir);
+    appendToAddressBook("test", await deploymentRecord("other pool", "EthPool", pool2), dir);
+    const tokenRecord = await createdContractRecord(
+      "Radicle Token",
+      "RadicleToken",
+      token.address,
+      pool1Record,
+      ethers.provider
+    );
+    appendToAddressBook("test", tokenRecord, dir);
+
+    const [record] = readAddressBook("test", dir);
+    expect(record.address).to.equal(pool1.address);
+    expect(record.txHash).to.equal(pool1.deployTransaction.hash);
+    expect(record.deployer).to.equal(deployer.address);
+    expect(record.constructorArgs).to.deep.equal(["10"]);
+    expect(record.compiler).to.equal("0.7.6");
+    const code = await ethers.provider.getCode(pool1.address);
+    expect(record.bytecodeHash).to.equal(ethers.utils.keccak256(code));
+    expect(readAddressBook("test", dir)[2].constructorArgs).to.be.undefined;
+
+    const deployment = loadDeployment("test", ethers.provider, dir);
+    expect(deployment.contract("EthPool").address).to.equal(pool2.address);
+    const cycleSecs = await deployment.contract("EthPool", "funding pool").cycleSecs();
+    expectBigNumberEq(cycleSecs, 10, "Invalid cycle length");
+    expect(deployment.contracts("EthPool")).to.have.length(2);
+    expect(await deployment.contract("RadicleToken").symbol()).to.equal("RAD");
+    expect(() => deployment.contract("Governor")).to.throw("No Governor deployed on test");
+    expect(() => loadDeployment("other", ethers.provider, dir)).to.throw("No address book");
+  });
+});
@@ -1,8 +1,17 @@
 import { ethers } from "hardhat";
-import { assert } from "chai";
-import { BytesLike } from "ethers";
+import { assert, expect } from "chai";
+import { generateKeyPairSync } from "crypto";
+import { utils, BytesLike } from "ethers";
 import { submit } from "./support";
 import { AttestationRegistry__factory } from "../contract-bindings/ethers";
+import {
+  attest,
+  packSignature,
+  readAttestation,
+  signAttestation,
+  verifyAttestation,
+  verifyStoredAttestation,
+} from "../src/attestations";
 
 // prettier-ignore
 type Signature = [
@@ -41,3 +50,45 @@ describe("Attestations", function () {
     );
   });
 });
+
+describe("Attestation signing", function () {
+  it("Signs attestations and verifies the stored ones", async function () {
+    const [signer, other] = await ethers.getSigners();
+    const registry = await new AttestationRegistry__factory(signer).deploy();
+    await registry.deployed();
+    const { privateKey } = generateKeyPairSync("ed25519");
+    const id = utils.randomBytes(32);
+    const revision = utils.randomBytes(32);
+
+    expect(await readAttestation(registry, signer.address)).to.equal(undefined);
+    const attestation = signAttestation(signer.address, id, revision, privateKey);
+    expect(verifyAttestation(signer.address, attestation)).to.equal(true);
+    expect(verifyAttestation(other.address, attestation)).to.equal(false, "Not bound to address");
+    await attest(registry, attestation);
+    expect(await readAttestation(registry, signer.address)).to.deep.equal(attestation);
+    expect(await verifyStoredAttestation(registry, signer.address)).to.equal(true);
+
+    // The attestation made for another address
+    await attest(registry.connect(other), attestation);
+    expect(await verifyStoredAttestation(registry, other.address)).to.equal(false);
+
+    const garbage = packSignature(utils.randomBytes(64));
+    await submit(registry.attest(id, revision, attestation.publicKey, garbage));
+    expect(await verifyStoredAttestation(registry, signer.address)).to.equal(false);
+
+    await submit(registry.revokeAttestation());
+    expect(await verifyStoredAttestation(registry, signer.address)).to.equal(false);
+  });
+
+  it("Signs with raw private keys", function () {
+    const seed = utils.randomBytes(32);
+    const addr = utils.hexlify(utils.randomBytes(20));
+    const id = utils.randomBytes(32);
+    const attestation = signAttestation(addr, id, id, seed);
+    expect(verifyAttestation(addr, attestation)).to.equal(true);
+    expect(signAttestation(addr, id, id, seed).publicKey).to.equal(attestation.publicKey);
+    expect(() => signAttestation(addr, id, id, seed.slice(1))).to.throw(
+      "The attestation private key must be 32 bytes long"
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { utils } from "ethers";
+import { mineBlocks, submit } from "./support";
+import { deployClaims, deployClaimsV2 } from "../src/deploy";
+import { ClaimFormat } from "../src/claims";
+import { ClaimsIndexer } from "../src/claims-indexer";
+
+// The init code of a contract calling `claims` with `calldata` in its constructor.
+// It's assembled by hand, because the contract would need to be compiled for every call data.
+function claimingConstructor(claims: string, calldata: string): string {
+  const size = utils.hexZeroPad(utils.hexlify(utils.hexDataLength(calldata)), 2);
+  return utils.hexConcat([
+    // CODECOPY(0, 52, size), the call data is appended after the code
+    "0x61" + size.slice(2) + "610034600039",
+    // CALL(GAS, claims, 0, 0, size, 0, 0)
+    "0x6000600061" + size.slice(2) + "6000600073" + claims.slice(2) + "5af1",
+    // Revert if the call has failed, deploy an empty contract otherwise
+    "0x603257600080fd5b00",
+    calldata,
+  ]);
+}
+
+describe("ClaimsIndexer", function () {
+  it("Rebuilds the claims from both contracts", async function () {
+    const [deployer, addr1, addr2, addr3] = await ethers.getSigners();
+    const claims = await deployClaims(deployer);
+    const claimsV2 = await deployClaimsV2(deployer);
+    const { blockNumber: startBlock } = await claims.deployTransaction.wait();
+    const indexer = new ClaimsIndexer(
+      ethers.provider,
+      { claims: claims.address, claimsV2: claimsV2.address },
+      startBlock,
+      { blockRange: 2 }
+    );
+    const sha1Root = utils.hexlify(utils.randomBytes(20));
+    const sha256Root = utils.hexlify(utils.randomBytes(32));
+
+    await submit(claims.connect(addr1).claim(ClaimFormat.Sha1, sha1Root));
+    await submit(claimsV2.connect(addr2).claim(ClaimFormat.Sha256, sha256Root));
+    await submit(claims.connect(addr3).claim(ClaimFormat.Sha1, sha1Root));
+    await indexer.sync();
+    expect(indexer.claim(addr1.address)).to.include({
+      addr: addr1.address,
+      format: ClaimFormat.Sha1,
+      root: sha1Root,
+      contract: claims.address,
+    });
+    expect(indexer.claimants(sha1Root)).to.deep.equal([addr1.address, addr3.address]);
+    expect(indexer.claimants(sha256Root)).to.deep.equal([addr2.address]);
+
+    // A payload of an invalid length revokes the claim
+    await submit(claimsV2.connect(addr3).claim(ClaimFormat.Sha1, sha256Root));
+    // An unsupported format revokes the claim
+    await submit(claims.connect(addr2).claim(3, sha256Root));
+    // The latest claim wins
+    await submit(claimsV2.connect(addr1).claim(ClaimFormat.Sha256, sha256Root));
+    await mineBlocks(3);
+    await indexer.sync();
+    expect(indexer.claim(addr3.address)).to.equal(undefined);
+    expect(indexer.claim(addr2.address)).to.equal(undefined);
+    expect(indexer.claim(addr1.address)?.contract).to.equal(claimsV2.address);
+    expect(indexer.claimants(sha1Root)).to.be.empty;
+    expect(indexer.claimants(sha256Root)).to.deep.equal([addr1.address]);
+    expect(indexer.allClaims()).to.have.length(1);
+  });
+
+  it("Treats the claims made by a contract constructor as malformed", async function () {
+    const [deployer] = await ethers.getSigners();
+    const claims = await deployClaims(deployer);
+    const { blockNumber: startBlock } = await claims.deployTransaction.wait();
+    const indexer = new ClaimsIndexer(ethers.provider, { claims: claims.address }, startBlock);
+    const root = utils.hexlify(utils.randomBytes(20));
+    const calldata = claims.interface.encodeFunctionData("claim", [ClaimFormat.Sha1, root]);
+
+    const tx = await deployer.sendTransaction({
+      data: claimingConstructor(claims.address, calldata),
+    });
+    const { contractAddress, logs } = await tx.wait();
+    expect(logs).to.have.length(1, "The constructor hasn't claimed");
+    expect(tx.to).to.equal(null);
+    await indexer.sync();
+    expect(indexer.claim(contractAddress)).to.equal(undefined);
+    expect(indexer.claimants(root)).to.be.empty;
+  });
+});
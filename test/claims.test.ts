@@ -0,0 +1,59 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { utils } from "ethers";
+import { deployClaimsV2 } from "../src/deploy";
+import {
+  claimIdentity,
+  decodeClaimPayload,
+  encodeClaimPayload,
+  revokeClaim,
+  ClaimFormat,
+} from "../src/claims";
+import { ClaimsIndexer } from "../src/claims-indexer";
+
+const URN = "rad:git:hnrkyghsrokxzxpy9pww69xr11dr9q7edbxfo";
+
+describe("Claims", function () {
+  it("Encodes and decodes Radicle URNs", function () {
+    const claim = encodeClaimPayload(URN);
+    expect(claim).to.deep.equal({
+      format: ClaimFormat.Sha1,
+      payload: "0x0372c4829f77b41f6d29efbc9290c9f775030bcb",
+    });
+    expect(decodeClaimPayload(claim)).to.equal(URN);
+
+    const sha256 = { format: ClaimFormat.Sha256, payload: utils.hexlify(utils.randomBytes(32)) };
+    expect(encodeClaimPayload(decodeClaimPayload(sha256))).to.deep.equal(sha256);
+    expect(() => decodeClaimPayload({ format: ClaimFormat.Sha256, payload: "0x1234" })).to.throw(
+      "Claim payload of format 2 must be 32 bytes long"
+    );
+  });
+
+  it("Rejects invalid Radicle URNs", function () {
+    const invalid = (urn: string, reason: string): void => {
+      expect(() => encodeClaimPayload(urn)).to.throw(`Invalid Radicle URN '${urn}': ${reason}`);
+    };
+    invalid("rad:hnrkyghsrokxzxpy9pww69xr11dr9q7edbxfo", "it must start with 'rad:git:h'");
+    invalid(URN + "/path", "it isn't valid z-base-32");
+    invalid(URN.slice(0, -2), "it isn't valid z-base-32");
+    invalid(URN.slice(0, -4), "the hash must be 20 bytes long");
+    invalid(URN.replace("hnrk", "hyrk"), "it must be an SHA-1 or an SHA-256 multihash");
+    const zero = decodeClaimPayload({ format: ClaimFormat.Sha1, payload: "0x" + "00".repeat(20) });
+    invalid(zero, "the hash is zero");
+  });
+
+  it("Claims and revokes identities", async function () {
+    const [claimer] = await ethers.getSigners();
+    const claims = await deployClaimsV2(claimer);
+    const { blockNumber } = await claims.deployTransaction.wait();
+    const indexer = new ClaimsIndexer(ethers.provider, { claimsV2: claims.address }, blockNumber);
+
+    await claimIdentity(claims, URN);
+    await indexer.sync();
+    expect(indexer.claim(claimer.address)?.urn).to.equal(URN);
+
+    await revokeClaim(claims);
+    await indexer.sync();
+    expect(indexer.claim(claimer.address)).to.equal(undefined);
+  });
+});
@@ -0,0 +1,59 @@
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import {
+  loadManifest,
+  Manifest,
+  ADDRESS,
+  MANIFEST_ENV,
+  NUMBER,
+  TIMESTAMP,
+} from "../src/deployment-manifest";
+
+const SCHEMA = { token: ADDRESS, cycleSecs: NUMBER, startDate: TIMESTAMP };
+
+// Loads the manifest written into a file with the given name
+function loadManifestFile(fileName: string, content: string): Manifest {
+  const manifestPath = path.join(
+    mkdtempSync(path.join(tmpdir(), "deployment-manifest-")),
+    fileName
+  );
+  writeFileSync(manifestPath, content);
+  process.env[MANIFEST_ENV] = manifestPath;
+  try {
+    return loadManifest("pool", SCHEMA);
+  } finally {
+    delete process.env[MANIFEST_ENV];
+  }
+}
+
+describe("Deployment manifest", function () {
+  it("Loads the YAML manifests", function () {
+    const yaml = [
+      "network: goerli",
+      "pool:",
+      "  token: 0x00000000000000000000000000000000000000aa",
+      "  cycleSecs: 604800",
+      "  startDate: 2021-01-01",
+    ].join("\n");
+    const manifest = loadManifestFile("deploy.yaml", yaml);
+    expect(manifest.network).to.equal("goerli");
+    expect(manifest.params.get("token", ADDRESS)).to.equal(
+      "0x00000000000000000000000000000000000000aa"
+    );
+    expect(manifest.params.get("cycleSecs", NUMBER)).to.equal(604800);
+    expect(manifest.params.get("startDate", TIMESTAMP)).to.equal(1609459200);
+  });
+
+  it("Rejects the numbers which aren't integers", function () {
+    const json = JSON.stringify({ pool: { cycleSecs: "10.5" } });
+    expect(() => loadManifestFile("deploy.json", json)).to.throw(
+      'pool.cycleSecs: "10.5" is not a valid number'
+    );
+    const yaml = "pool:\n  cycleSecs: 12abc\n";
+    expect(() => loadManifestFile("deploy.yml", yaml)).to.throw(
+      'pool.cycleSecs: "12abc" is not a valid number'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { BaseContract, Signer } from "ethers";
+import { expectBigNumberEq, expectTxFail, nextDeployedContractAddr } from "./support";
+import { deployAll, deployRadicleToken, deployTestEns, deployVestingToken } from "../src/deploy";
+import { DeploymentState, DeploymentSteps, StepRecord } from "../src/deployment-steps";
+import { ENSRegistry__factory } from "../contract-bindings/ethers";
+
+// Fails the deployment of the registrar
+class FailingSteps extends DeploymentSteps {
+  deploy<T extends BaseContract>(
+    step: string,
+    deploy: () => Promise<T>,
+    factory: { connect(address: string, signer: Signer): T },
+    expectedAddress?: string
+  ): Promise<T> {
+    if (step == "registrar") return Promise.reject(new Error("Step 'registrar' failed"));
+    return super.deploy(step, deploy, factory, expectedAddress);
+  }
+}
+
+function statePath(): string {
+  return path.join(mkdtempSync(path.join(tmpdir(), "deployment-steps-")), "state.json");
+}
+
+describe("Deployment steps", function () {
+  it("Skips the completed steps when rerun", async function () {
+    const [deployer, beneficiary] = await ethers.getSigners();
+    const token = await deployRadicleToken(deployer, deployer.address);
+    const state = statePath();
+    const deployVesting = async (): Promise<string> => {
+      const steps = new DeploymentSteps(deployer, state);
+      const vesting = await deployVestingToken(
+        deployer,
+        token.address,
+        deployer.address,
+        beneficiary.address,
+        100,
+        200,
+        300,
+        400,
+        steps.scoped("vesting")
+      );
+      return vesting.address;
+    };
+
+    const vestingAddr = await deployVesting();
+    const nonce = await deployer.getTransactionCount();
+    expect(await deployVesting()).to.equal(vestingAddr);
+    expect(await deployer.getTransactionCount()).to.equal(nonce, "Rerun sent transactions");
+    expectBigNumberEq(await token.balanceOf(vestingAddr), 100, "Invalid vested amount");
+    expectBigNumberEq(
+      await token.allowance(deployer.address, vestingAddr),
+      0,
+      "Dangling allowance left"
+    );
+
+    new DeploymentSteps(deployer, state).finish();
+    expect(existsSync(state)).to.equal(false, "State not removed");
+  });
+
+  it("Finds the sent but not recorded deployment on the chain", async function () {
+    const [deployer] = await ethers.getSigners();
+    const state = statePath();
+    const nonce = await deployer.getTransactionCount();
+    const ensAddr = await nextDeployedContractAddr(deployer, 0);
+    // The state saved just before the ENS deployment has been sent
+    writeFileSync(state, JSON.stringify({ ENS: { nonce, address: ensAddr } }));
+    await new ENSRegistry__factory(deployer).deploy();
+
+    const ens = await deployTestEns(deployer, "test", new DeploymentSteps(deployer, state));
+
+    expect(ens.address).to.equal(ensAddr);
+    expect(await deployer.getTransactionCount()).to.equal(nonce + 5, "Invalid number of txs");
+    const ethNode = ethers.utils.namehash("eth");
+    expect(await ens.owner(ethNode)).to.not.equal(ethers.constants.AddressZero);
+  });
+
+  it("Finds the sent but not recorded approval on the chain", async function () {
+    const [deployer, beneficiary] = await ethers.getSigners();
+    const token = await deployRadicleToken(deployer, deployer.address);
+    const state = statePath();
+    const nonce = await deployer.getTransactionCount();
+    const vestingAddr = await nextDeployedContractAddr(deployer, 1);
+    // The state saved just before the approval has been sent
+    writeFileSync(
+      state,
+      JSON.stringify({ "vesting address": { value: vestingAddr }, approve: { nonce } })
+    );
+    await token.approve(vestingAddr, 100);
+
+    const vesting = await deployVestingToken(
+      deployer,
+      token.address,
+      deployer.address,
+      beneficiary.address,
+      100,
+      200,
+      300,
+      400,
+      new DeploymentSteps(deployer, state)
+    );
+
+    expect(vesting.address).to.equal(vestingAddr);
+    expect(await deployer.getTransactionCount()).to.equal(nonce + 2, "Invalid number of txs");
+    expectBigNumberEq(await token.balanceOf(vestingAddr), 100, "Invalid vested amount");
+  });
+
+  it("Resumes deploying all the contracts after the failed step", async function () {
+    const [deployer] = await ethers.getSigners();
+    const state = statePath();
+    await expectTxFail(
+      deployAll(deployer, new FailingSteps(deployer, state)),
+      "deployAll",
+      "Step 'registrar' failed"
+    );
+    const stepsState = JSON.parse(readFileSync(state, "utf8")) as DeploymentState;
+    const tokenRecord = stepsState["Radicle Token"] as StepRecord;
+
+    const nonce = await deployer.getTransactionCount();
+    const deployed = await deployAll(deployer, new DeploymentSteps(deployer, state));
+    // The registrar, the eth domain transfer, the funding pools and the claims
+    expect(await deployer.getTransactionCount()).to.equal(nonce + 7, "Invalid number of txs");
+    expect(deployed.rad.address).to.equal(tokenRecord.address);
+    const radicleNode = ethers.utils.namehash("radicle.eth");
+    expect(await deployed.ens.owner(radicleNode)).to.equal(deployed.registrar.address);
+  });
+});
@@ -0,0 +1,65 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { utils } from "ethers";
+import { deployVestingToken, nextDeployedContractAddr } from "../src/deploy";
+import { formatDryRunReport, DryRun } from "../src/dry-run";
+import { ENSRegistry__factory, IERC20__factory } from "../contract-bindings/ethers";
+import { expectBigNumberEq, expectTxFail } from "./support";
+
+describe("Dry run", function () {
+  it("Rehearses a deployment with the real nonce and stand-ins", async function () {
+    const [funder] = await ethers.getSigners();
+    const dryRun = new DryRun(ethers.provider, funder);
+    const signingKey = new utils.SigningKey(utils.randomBytes(32));
+    const signer = await dryRun.connect(signingKey, 3, utils.parseEther("1"));
+    expect(await signer.getTransactionCount()).to.equal(3);
+    expectBigNumberEq(await signer.getBalance(), utils.parseEther("1"), "Invalid balance");
+    expect(await nextDeployedContractAddr(signer, 1)).to.equal(
+      utils.getContractAddress({ from: signer.address, nonce: 4 })
+    );
+
+    const realToken = "0x31c8EAcBFFdD875c74b94b077895Bd78CF1E64A3";
+    const tokenAddr = await dryRun.standInToken(realToken, signer.address);
+    const ensAddr = await dryRun.standInEns(realToken, signer.address, "radicle");
+    const ens = ENSRegistry__factory.connect(ensAddr, ethers.provider);
+    expect(await ens.owner(utils.namehash("radicle.eth"))).to.equal(signer.address);
+    const now = (await ethers.provider.getBlock("latest")).timestamp;
+    const vesting = await deployVestingToken(
+      signer,
+      tokenAddr,
+      funder.address,
+      funder.address,
+      100,
+      now - 1,
+      1000,
+      0
+    );
+    const token = IERC20__factory.connect(tokenAddr, ethers.provider);
+    expectBigNumberEq(await token.balanceOf(vesting.address), 100, "Invalid vested amount");
+
+    const gasPrice = utils.parseUnits("100", "gwei");
+    const report = await dryRun.report(gasPrice);
+    expect(report.transactions.map(({ nonce }) => nonce)).to.deep.equal([3, 4]);
+    expect(report.transactions[0].to).to.equal(tokenAddr);
+    expect(report.transactions[1].contractAddress).to.equal(vesting.address);
+    const gasUsed = report.transactions[0].gasUsed.add(report.transactions[1].gasUsed);
+    expectBigNumberEq(report.gasUsed, gasUsed, "Invalid gas used");
+    expectBigNumberEq(report.cost, gasUsed.mul(gasPrice), "Invalid cost");
+    expect(report.standIns.map(({ name }) => name)).to.deep.equal(["ERC-20 token", "ENS"]);
+    const formatted = formatDryRunReport(report);
+    expect(formatted).to.contain(`nonce 4: deploy ${vesting.address}`);
+    expect(formatted).to.contain(`Total cost at 100.0 GWei: ${utils.formatEther(report.cost)} ETH`);
+  });
+
+  it("Rejects the deployers with a too high nonce", async function () {
+    const [funder] = await ethers.getSigners();
+    const dryRun = new DryRun(ethers.provider, funder);
+    const signingKey = new utils.SigningKey(utils.randomBytes(32));
+    await dryRun.connect(signingKey, 1, utils.parseEther("1"));
+    await expectTxFail(
+      dryRun.connect(signingKey, 0, utils.parseEther("1")),
+      "connect",
+      "The deployer has already sent more than 0 transactions"
+    );
+  });
+});
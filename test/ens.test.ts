@@ -0,0 +1,57 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { submit } from "./support";
+import { deployAll } from "../src/deploy";
+import { checkNames, labelHash, nameNode, nameWarnings, normalizeName } from "../src/ens";
+
+describe("ENS names", function () {
+  it("Normalizes names", function () {
+    expect(normalizeName("CloudHead")).to.equal("cloudhead");
+    expect(normalizeName("ﬁsh")).to.equal("fish");
+    expect(normalizeName("straße")).to.equal("straße");
+    expect(normalizeName("\u{1F4A9}")).to.equal("\u{1F4A9}");
+    expect(normalizeName("zürich")).to.equal("zürich");
+    expect(() => normalizeName("a")).to.throw(
+      "Name 'a' is invalid, it must be between 2 and 128 bytes long"
+    );
+    expect(() => normalizeName("cloud.head")).to.throw(
+      "Name 'cloud.head' is invalid, only letters, digits and hyphens are allowed in it"
+    );
+    expect(() => normalizeName("_cloudhead")).to.throw("only letters, digits and hyphens");
+    expect(() => normalizeName("ab\u{FFFD}")).to.throw("contains characters not allowed");
+    expect(nameNode("CloudHead")).to.equal(ethers.utils.namehash("cloudhead.radicle.eth"));
+    const radNode = ethers.utils.namehash("radicle.eth");
+    const strasseNode = ethers.utils.keccak256(
+      ethers.utils.concat([radNode, ethers.utils.keccak256(ethers.utils.toUtf8Bytes("straße"))])
+    );
+    expect(nameNode("Straße")).to.equal(strasseNode);
+  });
+
+  it("Warns about confusable names", function () {
+    expect(nameWarnings("cloudhead")).to.deep.equal([]);
+    expect(nameWarnings("clоudhead")).to.deep.equal([
+      "Name 'clоudhead' looks like 'cloudhead', it contains 'о' (U+043E)",
+      "Name 'clоudhead' mixes Latin and Cyrillic scripts",
+    ]);
+  });
+
+  it("Checks names", async function () {
+    const [admin] = await ethers.getSigners();
+    const { ens, registrar } = await deployAll(admin);
+    await submit(registrar.setDomainOwner(admin.address));
+    const radNode = ethers.utils.namehash("radicle.eth");
+    await submit(ens.setSubnodeOwner(radNode, labelHash("taken"), admin.address));
+
+    const checks = await checkNames(registrar, ["Free", "taken", "x"]);
+    expect(checks).to.deep.equal([
+      { name: "Free", valid: true, normalized: "free", warnings: [], available: true },
+      { name: "taken", valid: true, normalized: "taken", warnings: [], available: false },
+      {
+        name: "x",
+        valid: false,
+        error: "Name 'x' is invalid, it must be between 2 and 128 bytes long",
+        warnings: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { utils } from "ethers";
+import { deployAll, deployProxy, submitOk } from "../src/deploy";
+import {
+  contractError,
+  decodeRevertData,
+  revertReason,
+  simulateTransaction,
+  ContractError,
+  GovernorError,
+  PoolError,
+  ProxyFailure,
+  RegistrarError,
+} from "../src/errors";
+import { proposeAdmin } from "../src/proxy";
+
+function revertData(reason: string): string {
+  const selector = utils.id("Error(string)").slice(0, 10);
+  return utils.hexConcat([selector, utils.defaultAbiCoder.encode(["string"], [reason])]);
+}
+
+describe("Errors", function () {
+  it("Builds typed errors from the revert reasons", function () {
+    const tooNew = contractError("Registrar::register: commitment too new");
+    expect(tooNew).to.be.instanceOf(RegistrarError);
+    expect(tooNew.contract).to.equal("Registrar");
+    expect(tooNew.method).to.equal("register");
+    expect(tooNew.message).to.equal(
+      "Registrar::register: commitment too new. " +
+        "Wait until the commitment is at least `minCommitmentAge` blocks old."
+    );
+    const arity = contractError("Governor::propose: proposal function information arity mismatch");
+    expect(arity).to.be.instanceOf(GovernorError);
+    expect(arity.method).to.equal("propose");
+    expect(contractError("Too many receivers")).to.be.instanceOf(PoolError);
+    expect(contractError("Proxy: admin cannot fallback to proxy target")).to.be.instanceOf(
+      ProxyFailure
+    );
+    const unknown = contractError("Something went wrong");
+    expect(unknown.constructor).to.equal(ContractError);
+    expect(unknown.message).to.equal("Something went wrong");
+  });
+
+  it("Finds the revert reasons", function () {
+    const reason = "Registrar::register: invalid name";
+    expect(decodeRevertData(revertData(reason))).to.equal(reason);
+    expect(decodeRevertData("0x")).to.equal(undefined);
+    expect(
+      revertReason(new Error(`VM Exception while processing transaction: revert ${reason}`))
+    ).to.equal(reason);
+    const body = JSON.stringify({ error: { code: 3, message: `execution reverted: ${reason}` } });
+    expect(revertReason({ code: "SERVER_ERROR", error: { body } })).to.equal(reason);
+    expect(revertReason({ error: { data: revertData(reason) } })).to.equal(reason);
+    expect(revertReason(new Error("nonce too low"))).to.equal(undefined);
+  });
+
+  it("Decodes the failed transactions", async function () {
+    const [admin, other] = await ethers.getSigners();
+    const { registrar, ethPool } = await deployAll(admin);
+    const register = registrar.register("cloudhead", admin.address, 0);
+    const error = await submitOk(register).catch((e) => e as unknown);
+    expect(error).to.be.instanceOf(RegistrarError);
+    expect((error as RegistrarError).reason).to.equal(
+      "Registrar::register: must commit before registration"
+    );
+
+    const withdraw = await ethPool.populateTransaction.updateSender(1, 0, [], []);
+    const reason = await simulateTransaction(ethers.provider, { ...withdraw, from: admin.address });
+    expect(reason).to.equal("Not enough funds in the sender account");
+
+    const proxy = await deployProxy(admin, admin.address);
+    const failure = await proposeAdmin(proxy.connect(other), other.address).catch(
+      (e) => e as unknown
+    );
+    expect(failure).to.be.instanceOf(ProxyFailure);
+    expect((failure as ProxyFailure).failures.map(({ info }) => info)).to.deep.equal([
+      "SET_PENDING_ADMIN_OWNER_CHECK",
+    ]);
+  });
+});
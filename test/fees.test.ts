@@ -0,0 +1,81 @@
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import { providers, utils, BigNumber, Wallet } from "ethers";
+import { deployClaims } from "../src/deploy";
+import { formatFees, suggestFees, useFees } from "../src/fees";
+import { expectBigNumberEq } from "./support";
+
+function gwei(amount: string): BigNumber {
+  return utils.parseUnits(amount, "gwei");
+}
+
+// Answers `eth_feeHistory` with a fixed history
+class FeeHistoryProvider extends providers.JsonRpcProvider {
+  readonly history: unknown;
+
+  constructor(history: unknown) {
+    super(undefined, { name: "test", chainId: 1 });
+    this.history = history;
+  }
+
+  send(method: string): Promise<unknown> {
+    expect(method).to.equal("eth_feeHistory");
+    return Promise.resolve(this.history);
+  }
+}
+
+// A provider independent from `ethers.provider`, so its fees can be changed
+function hardhatProvider(): providers.JsonRpcProvider {
+  return new providers.Web3Provider({
+    request: (request): Promise<unknown> => network.provider.request(request),
+  });
+}
+
+describe("Fees", function () {
+  it("Suggests the fees from the fee history", async function () {
+    const provider = new FeeHistoryProvider({
+      baseFeePerGas: [gwei("40"), gwei("50"), gwei("45"), gwei("30")].map(utils.hexValue),
+      reward: [[gwei("3")], [gwei("1")], [gwei("2")]].map((rewards) => rewards.map(utils.hexValue)),
+    });
+    const fees = await suggestFees(provider, 3);
+    expectBigNumberEq(fees.maxPriorityFeePerGas, gwei("2"), "Invalid max priority fee");
+    expectBigNumberEq(fees.maxFeePerGas, gwei("62"), "Invalid max fee");
+    expect(formatFees(fees)).to.equal("max fee 62.0 GWei, max priority fee 2.0 GWei");
+  });
+
+  it("Rejects the fee history without the base fees", async function () {
+    const provider = new FeeHistoryProvider({ baseFeePerGas: [], reward: [] });
+    const error = await suggestFees(provider).catch((e: Error) => e);
+    expect(error).to.be.instanceOf(Error);
+    expect((error as Error).message).to.equal("The network doesn't report the fee history");
+  });
+
+  it("Uses the legacy gas price in the deployments", async function () {
+    const provider = hardhatProvider();
+    const [funder] = await ethers.getSigners();
+    const signer = Wallet.createRandom().connect(provider);
+    await (
+      await funder.sendTransaction({ to: signer.address, value: utils.parseEther("1") })
+    ).wait();
+    useFees(provider, { gasPrice: gwei("3") });
+    const claims = await deployClaims(signer);
+    expectBigNumberEq(claims.deployTransaction.gasPrice ?? 0, gwei("3"), "Invalid gas price");
+  });
+
+  it("Populates the type 2 transactions with the EIP-1559 fees", async function () {
+    const provider = hardhatProvider();
+    const [funder] = await ethers.getSigners();
+    const signer = provider.getSigner(funder.address);
+    const fees = { maxFeePerGas: gwei("30"), maxPriorityFeePerGas: gwei("2") };
+    useFees(provider, fees);
+    const tx = await signer.populateTransaction({ to: funder.address });
+    expect(tx.type).to.equal(2);
+    expectBigNumberEq(tx.maxFeePerGas ?? 0, fees.maxFeePerGas, "Invalid max fee");
+    expectBigNumberEq(
+      tx.maxPriorityFeePerGas ?? 0,
+      fees.maxPriorityFeePerGas,
+      "Invalid priority fee"
+    );
+    expect(tx.gasPrice).to.equal(undefined);
+  });
+});
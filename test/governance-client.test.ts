@@ -0,0 +1,111 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import {
+  elapseTime,
+  expectBigNumberEq,
+  expectTxFail,
+  mineBlocks,
+  nextDeployedContractAddr,
+  submit,
+} from "./support";
+import { deployGovernance, deployRadicleToken, deployTimelock } from "../src/deploy";
+import {
+  formatActions,
+  readProposalFile,
+  GovernanceClient,
+  ProposalBuilder,
+  ProposalState,
+} from "../src/governance";
+
+const TIMELOCK_DELAY = 2 * 24 * 60 * 60;
+
+describe("GovernanceClient", function () {
+  it("Takes a proposal through its whole lifecycle", async function () {
+    this.timeout(300000);
+    const [proposer, receiver] = await ethers.getSigners();
+    const token = await deployRadicleToken(proposer, proposer.address);
+    const governorAddr = await nextDeployedContractAddr(proposer, 1);
+    const timelock = await deployTimelock(proposer, governorAddr, TIMELOCK_DELAY);
+    const governor = await deployGovernance(
+      proposer,
+      timelock.address,
+      token.address,
+      proposer.address
+    );
+    await submit(token.delegate(proposer.address));
+    await submit(token.transfer(timelock.address, 100));
+    const client = new GovernanceClient(governor);
+
+    const builder = new ProposalBuilder().addCall(
+      token,
+      await token.populateTransaction.transfer(receiver.address, 100)
+    );
+    const actions = builder.build();
+    const tooMany = new Array(11).fill(actions[0]);
+    await expectTxFail(
+      client.propose(tooMany, "too many"),
+      "propose",
+      "Too many actions, the limit is 10"
+    );
+    const proposalId = await client.propose(actions, "Send tokens to the receiver");
+    expect(await client.state(proposalId)).to.equal(ProposalState.Pending);
+
+    const names = new Map([[token.address, "Radicle Token"]]);
+    expect(formatActions(await client.actions(proposalId), names)).to.equal(
+      `1. Radicle Token: transfer(address: ${receiver.address}, uint256: 100)`
+    );
+
+    const { startBlock } = await client.status(proposalId);
+    await mineBlocks(startBlock + 1 - (await ethers.provider.getBlockNumber()));
+    expect(await client.state(proposalId)).to.equal(ProposalState.Active);
+    await expectTxFail(
+      client.queue(proposalId),
+      "queue",
+      `Proposal ${proposalId} can be queued only if it's Succeeded, but it's Active`
+    );
+    await submit(governor.castVote(proposalId, true));
+    const { endBlock } = await client.status(proposalId);
+    await mineBlocks(endBlock + 1 - (await ethers.provider.getBlockNumber()));
+    expect(await client.state(proposalId)).to.equal(ProposalState.Succeeded);
+
+    const eta = await client.queue(proposalId);
+    const status = await client.status(proposalId);
+    expect(status.state).to.equal(ProposalState.Queued);
+    expect(status.eta).to.equal(eta);
+    expect(status.expiresAt).to.equal(eta + 14 * 24 * 60 * 60);
+    await expectTxFail(
+      client.execute(proposalId),
+      "execute",
+      `Proposal ${proposalId} can't be executed before ${new Date(eta * 1000).toISOString()}`
+    );
+    await elapseTime(TIMELOCK_DELAY);
+    await client.execute(proposalId);
+    expect(await client.state(proposalId)).to.equal(ProposalState.Executed);
+    expectBigNumberEq(await token.balanceOf(receiver.address), 100, "Tokens not transferred");
+  });
+
+  it("Reads the proposal actions from a file", function () {
+    const filePath = path.join(mkdtempSync(path.join(tmpdir(), "proposal-")), "proposal.json");
+    const target = "0x0000000000000000000000000000000000000001";
+    const receiver = "0x0000000000000000000000000000000000000002";
+    const action = {
+      contract: "RadicleToken",
+      target,
+      function: "transfer",
+      args: [receiver, "5"],
+    };
+    writeFileSync(filePath, JSON.stringify({ description: "Transfer", actions: [action] }));
+    const { description, actions } = readProposalFile(filePath);
+    expect(description).to.equal("Transfer");
+    expect(formatActions(actions)).to.equal(
+      `1. ${target}: transfer(address: ${receiver}, uint256: 5)`
+    );
+
+    const invalid = { ...action, contract: "Unknown" };
+    writeFileSync(filePath, JSON.stringify({ description: "Transfer", actions: [invalid] }));
+    expect(() => readProposalFile(filePath)).to.throw("action 0 has an unknown contract Unknown");
+  });
+});
@@ -0,0 +1,68 @@
+import { network } from "hardhat";
+import { expect } from "chai";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { connectNetwork, networkProfile } from "../src/networks";
+import { expectTxFail } from "./support";
+
+// Serves the in-process Hardhat network over HTTP JSON-RPC
+async function serveHardhat(): Promise<[Server, string]> {
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += String(chunk)));
+    request.on("end", () => {
+      const { id, method, params } = JSON.parse(body) as {
+        id: number;
+        method: string;
+        params: unknown[];
+      };
+      void network.provider
+        .request({ method, params })
+        .then((result) => ({ jsonrpc: "2.0", id, result }))
+        .catch((error: Error) => ({
+          jsonrpc: "2.0",
+          id,
+          error: { code: -1, message: error.message },
+        }))
+        .then((reply) => response.end(JSON.stringify(reply)));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return [server, `http://127.0.0.1:${port}`];
+}
+
+describe("Networks", function () {
+  it("Builds the network profiles", function () {
+    expect(networkProfile("goerli").chainId).to.equal(5);
+    const local = networkProfile("localhost", "http://127.0.0.1:9545");
+    expect(local).to.deep.equal({
+      name: "localhost",
+      chainId: 31337,
+      rpcUrl: "http://127.0.0.1:9545",
+    });
+    expect(networkProfile("private", "http://node:8545", 1337).chainId).to.equal(1337);
+    expect(() => networkProfile("private")).to.throw(
+      "The network private is unknown, its RPC URL and chain ID are needed"
+    );
+    expect(() => networkProfile("mainnet", undefined, 5)).to.throw(
+      "The network mainnet has chain ID 1, not 5"
+    );
+  });
+
+  it("Verifies the chain ID on connect", async function () {
+    const [server, rpcUrl] = await serveHardhat();
+    try {
+      const provider = await connectNetwork({ name: "anvil", chainId: 31337, rpcUrl });
+      expect((await provider.getNetwork()).name).to.equal("anvil");
+      expect(await provider.getBlockNumber()).to.be.a("number");
+      await expectTxFail(
+        connectNetwork({ name: "goerli", chainId: 5, rpcUrl }),
+        "connectNetwork",
+        `The RPC endpoint ${rpcUrl} is on the chain 31337, but the network goerli has chain ID 5`
+      );
+    } finally {
+      server.close();
+    }
+  });
+});
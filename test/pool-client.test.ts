@@ -0,0 +1,83 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { elapseTime, expectBigNumberEq, expectTxFail, randomAddress } from "./support";
+import { deployErc20Pool, deployEthPool, deployTestDai } from "../src/deploy";
+import { PoolClient } from "../src/pool";
+
+const CYCLE_SECS = 10;
+
+describe("PoolClient", function () {
+  it("Tops up, sends and withdraws all funds from an EthPool", async function () {
+    const [sender, receiver] = await ethers.getSigners();
+    const pool = await deployEthPool(sender, CYCLE_SECS);
+    const senderClient = new PoolClient(pool);
+    const receiverClient = new PoolClient(pool.connect(receiver));
+
+    await senderClient.updateSender({
+      topUp: 100,
+      amtPerSec: 1,
+      receivers: [{ receiver: receiver.address, weight: 1 }],
+    });
+    expect(await senderClient.getAllReceivers()).to.deep.equal([
+      { receiver: receiver.address, receiverWeight: 1, proxyWeight: 0 },
+    ]);
+    await elapseTime(CYCLE_SECS * 2);
+
+    const collectable = await receiverClient.collectable();
+    expect(collectable.gt(0)).to.equal(true, "Nothing to collect");
+    await receiverClient.collect();
+
+    await senderClient.withdrawAll();
+    expectBigNumberEq(await senderClient.withdrawable(), 0, "Not everything was withdrawn");
+  });
+
+  it("Tops up an Erc20Pool with tokens", async function () {
+    const [sender] = await ethers.getSigners();
+    const erc20 = await deployTestDai(sender);
+    const pool = await deployErc20Pool(sender, CYCLE_SECS, erc20.address);
+    const client = new PoolClient(pool);
+    const balance = await erc20.balanceOf(sender.address);
+
+    await erc20.approve(pool.address, 100);
+    await client.topUp(100);
+    expectBigNumberEq(await client.withdrawable(), 100, "Invalid withdrawable amount");
+    expectBigNumberEq(await erc20.balanceOf(sender.address), balance.sub(100), "Invalid balance");
+
+    await client.withdraw(40);
+    expectBigNumberEq(await client.withdrawable(), 60, "Invalid withdrawable amount");
+  });
+
+  it("Rejects invalid receivers before sending", async function () {
+    const [sender] = await ethers.getSigners();
+    const pool = await deployEthPool(sender, CYCLE_SECS);
+    const client = new PoolClient(pool);
+    const { senderWeightsSumMax, senderWeightsCountMax } = await client.getConstants();
+    const nonceBefore = await sender.getTransactionCount();
+
+    const receivers = new Array(senderWeightsCountMax + 1).fill(0).map(() => ({
+      receiver: randomAddress(),
+      weight: 1,
+    }));
+    await expectTxFail(client.updateSender({ receivers }), "updateSender", "Too many receivers");
+    await client.setReceiver(randomAddress(), senderWeightsSumMax);
+    await expectTxFail(
+      client.setReceiver(randomAddress(), 1),
+      "setReceiver",
+      "Too much total receivers weight"
+    );
+    await expectTxFail(
+      client.setProxy(randomAddress(), 1),
+      "setProxy",
+      "Proxy weight not a multiple of PROXY_WEIGHTS_SUM"
+    );
+    await expectTxFail(
+      client.setAmtPerSec(BigNumber.from(1).shl(128)),
+      "setAmtPerSec",
+      "Invalid amount per second: " + BigNumber.from(1).shl(128).toString()
+    );
+
+    const nonceAfter = await sender.getTransactionCount();
+    expect(nonceAfter).to.equal(nonceBefore + 1, "Invalid transactions have been sent");
+  });
+});
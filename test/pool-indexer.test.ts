@@ -0,0 +1,69 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { elapseTime, expectBigNumberEq, submit } from "./support";
+import { deployEthPool } from "../src/deploy";
+import { PoolIndexer } from "../src/pool-indexer";
+
+const CYCLE_SECS = 10;
+
+describe("PoolIndexer", function () {
+  it("Rebuilds the streams from the pool events and rolls back reorged blocks", async function () {
+    const [sender, proxy, receiver1, receiver2] = await ethers.getSigners();
+    const pool = await deployEthPool(sender, CYCLE_SECS);
+    const { blockNumber: startBlock } = await pool.deployTransaction.wait();
+    const indexer = new PoolIndexer(ethers.provider, pool.address, startBlock, { blockRange: 2 });
+
+    await submit(
+      pool.connect(proxy).setProxyWeights([{ receiver: receiver1.address, weight: 100 }])
+    );
+    await submit(
+      pool
+        .connect(sender)
+        .updateSender(
+          0,
+          1010,
+          [{ receiver: receiver2.address, weight: 1 }],
+          [{ receiver: proxy.address, weight: 100 }],
+          { value: 100000 }
+        )
+    );
+    await indexer.sync();
+
+    const [receiverStream] = indexer.streamsToReceiver(receiver2.address);
+    expect(receiverStream.sender).to.equal(sender.address);
+    expectBigNumberEq(receiverStream.amtPerSec, 10, "Invalid receiver stream amtPerSec");
+    const [proxyStream] = indexer.proxyStreams();
+    expect(proxyStream.receiver).to.equal(proxy.address);
+    expectBigNumberEq(proxyStream.amtPerSec, 1000, "Invalid proxy stream amtPerSec");
+    expect(indexer.streamsFromSender(sender.address)).to.have.length(2);
+    expect(indexer.proxyReceivers(proxy.address)).to.deep.equal([
+      { receiver: receiver1.address, weight: 100 },
+    ]);
+    expect(indexer.receiverProxies(receiver1.address)).to.deep.equal([proxy.address]);
+    expectBigNumberEq(indexer.sender(sender.address)?.balance ?? 0, 100000, "Invalid balance");
+
+    const snapshot = (await ethers.provider.send("evm_snapshot", [])) as string;
+    await elapseTime(CYCLE_SECS * 2);
+    await submit(pool.connect(receiver2).collect());
+    await submit(pool.connect(sender).updateSender(0, 0, [], []));
+    await indexer.sync();
+    expect(indexer.collected(receiver2.address).gt(0)).to.equal(true, "Nothing collected");
+    expect(indexer.receiverStreams()).to.be.empty;
+    expect(indexer.proxyStreams()).to.be.empty;
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await submit(
+      pool.connect(proxy).setProxyWeights([
+        { receiver: receiver1.address, weight: 0 },
+        { receiver: receiver2.address, weight: 100 },
+      ])
+    );
+    await indexer.sync();
+    expectBigNumberEq(indexer.collected(receiver2.address), 0, "Reorged collection not removed");
+    expect(indexer.streamsFromSender(sender.address)).to.have.length(2);
+    expect(indexer.proxyReceivers(proxy.address)).to.deep.equal([
+      { receiver: receiver2.address, weight: 100 },
+    ]);
+    expect(indexer.receiverProxies(receiver1.address)).to.be.empty;
+  });
+});
@@ -0,0 +1,126 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { ContractReceipt, Signer } from "ethers";
+import { elapseTime, expectBigNumberEq, submit } from "./support";
+import { deployEthPool } from "../src/deploy";
+import { PoolSimulator } from "../src/pool-simulator";
+import { EthPool } from "../contract-bindings/ethers/EthPool";
+
+const CYCLE_SECS = 10;
+
+async function blockTimestamp(receipt: ContractReceipt): Promise<number> {
+  return (await ethers.provider.getBlock(receipt.blockHash)).timestamp;
+}
+
+async function expectSameState(
+  simulator: PoolSimulator,
+  pool: EthPool,
+  users: Signer[]
+): Promise<void> {
+  const { timestamp } = await ethers.provider.getBlock("latest");
+  for (const user of users) {
+    const userAddr = await user.getAddress();
+    const userPool = pool.connect(user);
+    expectBigNumberEq(
+      await userPool.withdrawable(),
+      simulator.withdrawable(timestamp, userAddr),
+      "Invalid withdrawable amount of " + userAddr
+    );
+    expectBigNumberEq(
+      await userPool.collectable(),
+      simulator.collectable(timestamp, userAddr),
+      "Invalid collectable amount of " + userAddr
+    );
+  }
+}
+
+describe("PoolSimulator", function () {
+  it("Predicts the same amounts as the pool contract", async function () {
+    const signers = await ethers.getSigners();
+    const [sender1, sender2, proxy, receiver1, receiver2, receiver3] = signers;
+    const users = [sender1, sender2, proxy, receiver1, receiver2, receiver3];
+    const pool = await deployEthPool(sender1, CYCLE_SECS);
+    const simulator = new PoolSimulator(CYCLE_SECS);
+
+    const proxyWeights1 = [
+      { receiver: receiver1.address, weight: 50 },
+      { receiver: receiver2.address, weight: 50 },
+    ];
+    let receipt = await submit(pool.connect(proxy).setProxyWeights(proxyWeights1));
+    simulator.setProxyWeights(await blockTimestamp(receipt), proxy.address, proxyWeights1);
+    await expectSameState(simulator, pool, users);
+
+    const receivers1 = [{ receiver: receiver3.address, weight: 3 }];
+    const proxies1 = [{ receiver: proxy.address, weight: 100 }];
+    receipt = await submit(
+      pool.connect(sender1).updateSender(0, 1000, receivers1, proxies1, { value: 100000 })
+    );
+    simulator.updateSender(await blockTimestamp(receipt), sender1.address, {
+      topUp: 100000,
+      amtPerSec: 1000,
+      receivers: receivers1,
+      proxies: proxies1,
+    });
+    await expectSameState(simulator, pool, users);
+
+    await elapseTime(7);
+    const receivers2 = [{ receiver: receiver1.address, weight: 2 }];
+    receipt = await submit(
+      pool.connect(sender2).updateSender(0, 7, receivers2, [], { value: 5000 })
+    );
+    simulator.updateSender(await blockTimestamp(receipt), sender2.address, {
+      topUp: 5000,
+      amtPerSec: 7,
+      receivers: receivers2,
+    });
+    await expectSameState(simulator, pool, users);
+
+    await elapseTime(13);
+    const proxyWeights2 = [
+      { receiver: receiver2.address, weight: 0 },
+      { receiver: receiver3.address, weight: 50 },
+    ];
+    receipt = await submit(pool.connect(proxy).setProxyWeights(proxyWeights2));
+    simulator.setProxyWeights(await blockTimestamp(receipt), proxy.address, proxyWeights2);
+    await expectSameState(simulator, pool, users);
+
+    await elapseTime(25);
+    receipt = await submit(pool.connect(receiver1).collect());
+    simulator.collect(await blockTimestamp(receipt), receiver1.address);
+    await expectSameState(simulator, pool, users);
+
+    await elapseTime(4);
+    receipt = await submit(pool.connect(sender1).updateSender(30000, 500, [], []));
+    simulator.updateSender(await blockTimestamp(receipt), sender1.address, {
+      withdraw: 30000,
+      amtPerSec: 500,
+    });
+    await expectSameState(simulator, pool, users);
+
+    await elapseTime(CYCLE_SECS * 30);
+    await expectSameState(simulator, pool, users);
+    for (const receiver of [receiver1, receiver2, receiver3]) {
+      receipt = await submit(pool.connect(receiver).collect());
+      simulator.collect(await blockTimestamp(receipt), receiver.address);
+    }
+    await expectSameState(simulator, pool, users);
+  });
+
+  it("Forecasts when a sender runs out of funds", function () {
+    const sender = ethers.Wallet.createRandom().address;
+    const receiver = ethers.Wallet.createRandom().address;
+    const simulator = PoolSimulator.withSenders(CYCLE_SECS, 1000, [
+      { sender, balance: 100, amtPerSec: 7, receivers: [{ receiver, weight: 2 }] },
+    ]);
+    // The amount per second is rounded down to 6, so 100 is enough for 16 seconds
+    expectBigNumberEq(simulator.senderEndTime(sender) ?? 0, 1016, "Invalid end time");
+    expectBigNumberEq(simulator.withdrawable(1016, sender), 4, "Invalid withdrawable amount");
+    expectBigNumberEq(simulator.collectable(1009, receiver), 0, "Invalid collectable amount");
+    expectBigNumberEq(simulator.collectableNextCycle(1009, receiver), 60, "Invalid next cycle");
+    expectBigNumberEq(simulator.collectable(1020, receiver), 96, "Invalid collectable amount");
+    expect(() => simulator.updateSender(1020, sender, { withdraw: 5 })).to.throw(
+      "Not enough funds in the sender account"
+    );
+    expectBigNumberEq(simulator.withdrawable(1020, sender), 4, "State changed by a failed update");
+  });
+});
@@ -5,7 +5,15 @@ import {
   DummyUpgradableV1__factory,
   DummyUpgradableV2__factory,
 } from "../contract-bindings/ethers";
-import { submit } from "./support";
+import { contractLayout, expectTxFail, submit } from "./support";
+import { deployProxy } from "../src/deploy";
+import {
+  acceptAdmin,
+  proposeAdmin,
+  proposeImplementation,
+  proxyFailures,
+  upgradeProxy,
+} from "../src/proxy";
 
 describe("Proxy", function () {
   it("it should delegate calls to the target contract", async function () {
@@ -43,3 +51,65 @@ describe("Proxy", function () {
     assert.equal((await impl.connect(user).version()).toNumber(), 2);
   });
 });
+
+describe("Proxy upgrades", function () {
+  it("Upgrades the implementation and hands over the admin", async function () {
+    const [admin, newAdmin] = await ethers.getSigners();
+    const proxy = await deployProxy(admin, admin.address);
+    const contract1 = await new DummyUpgradableV1__factory(admin).deploy();
+    const contract2 = await new DummyUpgradableV2__factory(admin).deploy();
+
+    await upgradeProxy(proxy, contract1);
+    assert.equal(await proxy.implementation(), contract1.address);
+
+    const v1 = await contractLayout("contracts/DummyUpgradable.sol:DummyUpgradableV1");
+    const v2 = await contractLayout("contracts/DummyUpgradable.sol:DummyUpgradableV2");
+    await upgradeProxy(proxy, contract2, { previous: v1, next: v2 });
+    assert.equal(await proxy.implementation(), contract2.address);
+
+    await proposeAdmin(proxy, newAdmin.address);
+    await acceptAdmin(proxy.connect(newAdmin));
+    assert.equal(await proxy.admin(), newAdmin.address);
+  });
+
+  it("Decodes the failures", async function () {
+    const [admin, other] = await ethers.getSigners();
+    const proxy = await deployProxy(admin, admin.address);
+    const contract = await new DummyUpgradableV1__factory(admin).deploy();
+
+    const receipt = await submit(proxy.connect(other)._setPendingImplementation(contract.address));
+    const failures = proxyFailures(proxy, receipt);
+    assert.deepEqual(failures, [
+      {
+        error: "UNAUTHORIZED",
+        info: "SET_PENDING_IMPLEMENTATION_OWNER_CHECK",
+        detail: failures[0].detail,
+      },
+    ]);
+    await expectTxFail(
+      proposeImplementation(proxy.connect(other), contract.address),
+      "proposeImplementation",
+      "Proxy failure: UNAUTHORIZED (SET_PENDING_IMPLEMENTATION_OWNER_CHECK)"
+    );
+    await expectTxFail(
+      acceptAdmin(proxy.connect(other)),
+      "acceptAdmin",
+      "Proxy failure: UNAUTHORIZED (ACCEPT_ADMIN_PENDING_ADMIN_CHECK)"
+    );
+    assert.equal(await proxy.admin(), admin.address);
+  });
+
+  it("Checks the storage layouts before proposing", async function () {
+    const [admin] = await ethers.getSigners();
+    const proxy = await deployProxy(admin, admin.address);
+    const contract = await new DummyUpgradableV1__factory(admin).deploy();
+    const v1 = await contractLayout("contracts/DummyUpgradable.sol:DummyUpgradableV1");
+    const registrar = await contractLayout("contracts/Registrar.sol:Registrar");
+
+    await expectTxFail(
+      proposeImplementation(proxy, contract.address, { previous: v1, next: registrar }),
+      "proposeImplementation"
+    );
+    assert.equal(await proxy.pendingImplementation(), ethers.constants.AddressZero);
+  });
+});
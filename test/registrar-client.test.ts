@@ -0,0 +1,65 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { expectBigNumberEq, expectTxFail, mineBlocks, submit } from "./support";
+import { deployAll } from "../src/deploy";
+import { DeploymentSteps } from "../src/deployment-steps";
+import { registrationCommitment, RegistrarClient } from "../src/registrar";
+
+describe("RegistrarClient", function () {
+  it("Registers a name resuming from the saved commitment", async function () {
+    this.timeout(300000);
+    const [admin, registrant] = await ethers.getSigners();
+    const { rad, registrar, ens } = await deployAll(admin);
+    const fee = await registrar.registrationFeeRad();
+    await submit(rad.transfer(registrant.address, fee));
+    const statePath = path.join(mkdtempSync(path.join(tmpdir(), "registrar-")), "state.json");
+    const client = new RegistrarClient(registrar, new DeploymentSteps(registrant, statePath));
+
+    await expectTxFail(
+      client.commit("a"),
+      "commit",
+      "Name 'a' is invalid, it must be between 2 and 128 bytes long"
+    );
+    await expectTxFail(
+      client.commit("CloudHead"),
+      "commit",
+      "Name 'CloudHead' isn't normalized, it should be 'cloudhead'"
+    );
+    const commitment = await client.commit("cloudhead");
+    expect(commitment.owner).to.equal(registrant.address);
+    expect(commitment.commitment).to.equal(
+      registrationCommitment("cloudhead", registrant.address, commitment.salt)
+    );
+    expect(readFileSync(statePath, "utf8")).to.contain(commitment.salt);
+    expectBigNumberEq(await rad.balanceOf(registrant.address), 0, "Fee not burned");
+
+    // Simulates a crash, the client is recreated from the saved state
+    const resumed = new RegistrarClient(registrar, new DeploymentSteps(registrant, statePath));
+    expect(await resumed.commit("cloudhead")).to.deep.equal(commitment);
+    await mineBlocks(commitment.registrableAt - 1 - (await ethers.provider.getBlockNumber()));
+    await resumed.register("cloudhead");
+    expect(await ens.owner(ethers.utils.namehash("cloudhead.radicle.eth"))).to.equal(
+      registrant.address
+    );
+    await expectTxFail(
+      resumed.register("cloudhead", admin.address),
+      "register",
+      "Name 'cloudhead' is already registered"
+    );
+  });
+
+  it("Requires the registration fee", async function () {
+    const [admin, registrant] = await ethers.getSigners();
+    const { registrar } = await deployAll(admin);
+    const fee = await registrar.registrationFeeRad();
+    const client = new RegistrarClient(registrar, new DeploymentSteps(registrant));
+    await expectTxFail(
+      client.commit("cloudhead"),
+      "commit",
+      `Insufficient RAD balance, the fee is ${fee.toString()}, has 0`
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { utils } from "ethers";
+import { expectBigNumberEq, submit } from "./support";
+import { deployAll } from "../src/deploy";
+import { ProposalAction } from "../src/governance";
+import { registrarProposal, RegistrarProposals } from "../src/registrar-proposals";
+
+describe("Registrar proposals", function () {
+  it("Previews the changes and builds the actions", async function () {
+    const [admin, other] = await ethers.getSigners();
+    const { registrar } = await deployAll(admin);
+    const proposals = new RegistrarProposals(registrar);
+    // Executes the action like the timelock would do it
+    const execute = async ({ target, signature, calldata }: ProposalAction): Promise<void> => {
+      const data = utils.hexConcat([utils.id(signature).slice(0, 10), calldata]);
+      await submit(admin.sendTransaction({ to: target, data }));
+    };
+
+    const fee = await proposals.setRadRegistrationFee(utils.parseEther("20"));
+    expect(fee.preview).to.equal("Registration fee: 10.0 RAD -> 20.0 RAD");
+    expect(fee.warnings).to.deep.equal([]);
+    const age = await proposals.setMinCommitmentAge(0);
+    expect(age.preview).to.equal("Minimum commitment age: 50 -> 0 blocks");
+    expect(age.warnings).to.have.length(1);
+    const proposal = registrarProposal([fee, age]);
+    expect(proposal.description).to.equal(
+      "Registrar changes:\nRegistration fee: 10.0 RAD -> 20.0 RAD\n" +
+        "Minimum commitment age: 50 -> 0 blocks"
+    );
+    for (const action of proposal.actions) await execute(action);
+    expectBigNumberEq(await registrar.registrationFeeRad(), utils.parseEther("20"), "Invalid fee");
+    expectBigNumberEq(await registrar.minCommitmentAge(), 0, "Invalid commitment age");
+
+    const ownerChange = await proposals.setDomainOwner(other.address);
+    expect(ownerChange.preview).to.equal(`Domain owner: ${registrar.address} -> ${other.address}`);
+    expect(ownerChange.warnings).to.deep.equal([
+      "The domain is moved away from the Registrar, it won't be able to register names anymore",
+    ]);
+    const adminChange = await proposals.setAdmin(other.address);
+    expect(adminChange.warnings).to.deep.equal([
+      `The Registrar won't be administered by its current admin ${admin.address}`,
+      `The admin ${other.address} isn't a contract, it's controlled by a single key`,
+    ]);
+    await execute(adminChange.action);
+    expect(await registrar.admin()).to.equal(other.address);
+  });
+});
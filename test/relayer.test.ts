@@ -0,0 +1,108 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import {
+  expectBigNumberEq,
+  getSigningKey,
+  mineBlocks,
+  nextDeployedContractAddr,
+  submit,
+} from "./support";
+import { deployGovernance, deployRadicleToken, deployTimelock } from "../src/deploy";
+import { GovernanceClient, ProposalBuilder } from "../src/governance";
+import { relayDelegations, relayVotes, SignedDelegation, SignedVote } from "../src/relayer";
+import { ballotTypedData, delegationTypedData, permitTypedData, signTypedData } from "../src/utils";
+
+describe("Relayer", function () {
+  it("Relays signed delegations and votes", async function () {
+    this.timeout(300000);
+    const [relayer, voter1, voter2] = await ethers.getSigners();
+    const token = await deployRadicleToken(relayer, relayer.address);
+    const governorAddr = await nextDeployedContractAddr(relayer, 1);
+    const timelock = await deployTimelock(relayer, governorAddr, 2 * 24 * 60 * 60);
+    const governor = await deployGovernance(
+      relayer,
+      timelock.address,
+      token.address,
+      relayer.address
+    );
+    await submit(token.delegate(relayer.address));
+    await submit(token.transfer(voter1.address, 100));
+    await submit(token.transfer(voter2.address, 200));
+    const chainId = await relayer.getChainId();
+    const now = (await ethers.provider.getBlock("latest")).timestamp;
+
+    const delegation = async (
+      delegator: string,
+      nonce: number,
+      expiry: number,
+      signer = delegator
+    ): Promise<SignedDelegation> => {
+      const data = delegationTypedData(token.address, chainId, delegator, nonce, expiry);
+      const signature = await signTypedData(getSigningKey(signer), data);
+      return { delegator, delegatee: delegator, nonce, expiry, signature };
+    };
+    const valid1 = await delegation(voter1.address, 0, now + 1000);
+    const valid2 = await delegation(voter2.address, 0, now + 1000);
+    const expired = await delegation(voter2.address, 1, now - 1);
+    const badNonce = await delegation(voter2.address, 5, now + 1000);
+    const forged = await delegation(voter1.address, 1, now + 1000, voter2.address);
+    const delegations = await relayDelegations(token, [badNonce, valid1, forged, expired, valid2]);
+    expect(delegations.relayed.map(({ entry }) => entry)).to.deep.equal([valid1, valid2]);
+    expect(delegations.dropped.map(({ reason }) => reason)).to.deep.equal([
+      `Invalid signature of ${voter1.address}, it's signed by ${voter2.address}`,
+      `Delegation of ${voter2.address} expired at ${new Date((now - 1) * 1000).toISOString()}`,
+      `Delegation of ${voter2.address} has nonce 5, but the next usable one is 1`,
+    ]);
+    expect(await token.delegates(voter1.address)).to.equal(voter1.address);
+    expect(await token.delegates(voter2.address)).to.equal(voter2.address);
+
+    const client = new GovernanceClient(governor);
+    const actions = new ProposalBuilder()
+      .addCall(token, await token.populateTransaction.transfer(voter1.address, 1))
+      .build();
+    const proposalId = await client.propose(actions, "Send a token");
+
+    const vote = async (voter: string, support: boolean, signer = voter): Promise<SignedVote> => {
+      const data = ballotTypedData(governor.address, chainId, proposalId, support);
+      const signature = await signTypedData(getSigningKey(signer), data);
+      return { voter, proposalId, support, signature };
+    };
+    const vote1 = await vote(voter1.address, true);
+    const notActive = await relayVotes(governor, [vote1]);
+    expect(notActive.dropped[0].reason).to.equal(`Proposal ${proposalId} is Pending, not Active`);
+
+    const { startBlock } = await client.status(proposalId);
+    await mineBlocks(startBlock + 1 - (await ethers.provider.getBlockNumber()));
+    const vote2 = await vote(voter2.address, false);
+    const forgedVote = await vote(voter2.address, true, voter1.address);
+    const votes = await relayVotes(governor, [vote1, forgedVote, vote2, vote1]);
+    expect(votes.relayed.map(({ entry }) => entry)).to.deep.equal([vote1, vote2]);
+    expect(votes.dropped.map(({ reason }) => reason)).to.deep.equal([
+      `Invalid signature of ${voter2.address}, it's signed by ${voter1.address}`,
+      `Voter ${voter1.address} has already voted on proposal ${proposalId}`,
+    ]);
+    const proposal = await governor.proposals(proposalId);
+    expectBigNumberEq(proposal.forVotes, 100, "Invalid votes for");
+    expectBigNumberEq(proposal.againstVotes, 200, "Invalid votes against");
+  });
+
+  it("Signs permits accepted by the token", async function () {
+    const [owner, spender] = await ethers.getSigners();
+    const token = await deployRadicleToken(owner, owner.address);
+    const deadline = (await ethers.provider.getBlock("latest")).timestamp + 1000;
+    const data = permitTypedData(
+      token.address,
+      await owner.getChainId(),
+      owner.address,
+      spender.address,
+      10,
+      await token.nonces(owner.address),
+      deadline
+    );
+    const { v, r, s } = await signTypedData(getSigningKey(owner.address), data);
+    await submit(
+      token.connect(spender).permit(owner.address, spender.address, 10, deadline, v, r, s)
+    );
+    expectBigNumberEq(await token.allowance(owner.address, spender.address), 10, "Not approved");
+  });
+});
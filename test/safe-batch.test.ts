@@ -0,0 +1,219 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { JsonFragment } from "@ethersproject/abi";
+import { constants, utils, BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import GnosisSafe from "@gnosis.pm/safe-contracts/build/artifacts/contracts/GnosisSafe.sol/GnosisSafe.json";
+import GnosisSafeProxy from "@gnosis.pm/safe-contracts/build/artifacts/contracts/proxies/GnosisSafeProxy.sol/GnosisSafeProxy.json";
+import MultiSend from "@gnosis.pm/safe-contracts/build/artifacts/contracts/libraries/MultiSend.sol/MultiSend.json";
+import CreateCall from "@gnosis.pm/safe-contracts/build/artifacts/contracts/libraries/CreateCall.sol/CreateCall.json";
+import { expectBigNumberEq, expectTxFail, randomAddress, submit } from "./support";
+import { deployRadicleToken, deployTestEns, transferEthDomain } from "../src/deploy";
+import { labelHash } from "../src/ens";
+import {
+  exportPhase0,
+  exportTransferEthDomain,
+  exportVestingBatch,
+  readSafeNonce,
+  CREATE_CALL_ADDRESS,
+  SafeBatch,
+  SafeOperation,
+  SafeTransactionFile,
+} from "../src/safe-batch";
+import {
+  BaseRegistrarImplementation__factory,
+  Claims__factory,
+  VestingToken__factory,
+} from "../contract-bindings/ethers";
+
+const CREATE_CALL = new utils.Interface([
+  "function performCreate(uint256 value, bytes deploymentData) returns (address newContract)",
+]);
+
+interface Artifact {
+  abi: JsonFragment[];
+  bytecode: string;
+}
+
+interface SafeContracts {
+  safe: Contract;
+  multiSend: string;
+  createCall: string;
+}
+
+// Deploys the Safe v1.3.0 owned only by the owner and the libraries used by the batches
+async function deploySafe(owner: Signer): Promise<SafeContracts> {
+  const deploy = async ({ abi, bytecode }: Artifact, ...args: unknown[]): Promise<Contract> =>
+    new ContractFactory(abi, bytecode, owner).deploy(...args);
+  const singleton = await deploy(GnosisSafe);
+  const proxy = await deploy(GnosisSafeProxy, singleton.address);
+  const safe = new Contract(proxy.address, GnosisSafe.abi, owner);
+  const zero = constants.AddressZero;
+  const ownerAddr = await owner.getAddress();
+  await submit(safe.functions.setup([ownerAddr], 1, zero, "0x", zero, zero, 0, zero));
+  const multiSend = await deploy(MultiSend);
+  const createCall = await deploy(CreateCall);
+  return { safe, multiSend: multiSend.address, createCall: createCall.address };
+}
+
+// Executes the Safe transaction approved by the owner sending it
+async function executeSafeTransaction(safe: Contract, file: SafeTransactionFile): Promise<void> {
+  const {
+    to,
+    value,
+    data,
+    operation,
+    safeTxGas,
+    baseGas,
+    gasPrice,
+    gasToken,
+    refundReceiver,
+  } = file.transaction;
+  const [safeTxHash] = (await safe.functions.getTransactionHash(
+    to,
+    value,
+    data,
+    operation,
+    safeTxGas,
+    baseGas,
+    gasPrice,
+    gasToken,
+    refundReceiver,
+    file.transaction.nonce
+  )) as [string];
+  expect(file.safeTxHash).to.equal(safeTxHash, "Invalid Safe transaction hash");
+  // The signature of an owner, who is the sender of the transaction
+  const ownerAddr = await safe.signer.getAddress();
+  const signature = utils.hexConcat([utils.hexZeroPad(ownerAddr, 32), constants.HashZero, "0x01"]);
+  await submit(
+    safe.functions.execTransaction(
+      to,
+      value,
+      data,
+      operation,
+      safeTxGas,
+      baseGas,
+      gasPrice,
+      gasToken,
+      refundReceiver,
+      signature
+    )
+  );
+}
+
+describe("Safe batch", function () {
+  it("Encodes the contract creations as delegate calls", function () {
+    const safe = randomAddress();
+    const batch = new SafeBatch(safe, 5, 7);
+    batch.call("Claim nothing", safe, "0x1234");
+    const file = batch.toFile("claims", 1000);
+    expect(file.chainId).to.equal("5");
+    expect(file.createdAt).to.equal(1000);
+    expect(file.meta.createdFromSafeAddress).to.equal(utils.getAddress(safe));
+    expect(file.meta.description).to.equal("1. Claim nothing");
+    expect(file.transactions).to.deep.equal([
+      {
+        to: utils.getAddress(safe),
+        value: "0",
+        data: "0x1234",
+        contractMethod: null,
+        contractInputsValues: null,
+      },
+    ]);
+
+    const deployTx = new Claims__factory().getDeployTransaction();
+    const claims = batch.create("Deploy the claims", deployTx);
+    expect(claims).to.equal(utils.getContractAddress({ from: safe, nonce: 7 }));
+    expect(batch.nextContractAddress()).to.equal(
+      utils.getContractAddress({ from: safe, nonce: 8 })
+    );
+    const create = batch.transactions[1];
+    expect(create.to).to.equal(CREATE_CALL_ADDRESS);
+    expect(create.operation).to.equal(SafeOperation.DelegateCall);
+    const { value, deploymentData } = CREATE_CALL.decodeFunctionData("performCreate", create.data);
+    expectBigNumberEq(value, 0, "Invalid creation value");
+    expect(deploymentData).to.equal(deployTx.data);
+    expect(() => batch.toFile("claims")).to.throw(
+      "The batch creates contracts with delegate calls, which the Transaction Builder " +
+        "can't execute, it must be exported as a Safe transaction"
+    );
+    expect(batch.toSafeTransaction(3).description).to.equal(
+      `1. Claim nothing\n2. Deploy the claims, deploys ${claims}`
+    );
+  });
+
+  it("Executes the exported deployments in the Safe", async function () {
+    const [owner, beneficiary] = await ethers.getSigners();
+    const { safe, multiSend, createCall } = await deploySafe(owner);
+    const token = await deployRadicleToken(owner, safe.address);
+    const ens = await deployTestEns(owner, "safe");
+    await transferEthDomain(ens, "safe", safe.address);
+
+    const batch = await SafeBatch.forSafe(ethers.provider, safe.address, createCall);
+    const claims = batch.create("Deploy the claims", new Claims__factory().getDeployTransaction());
+    const amount = utils.parseEther("2");
+    const rows = [{ line: 2, beneficiary: beneficiary.address, amount, vestingStartTime: 1000 }];
+    const [exported] = await exportVestingBatch(
+      batch,
+      ethers.provider,
+      token.address,
+      owner.address,
+      0,
+      100,
+      rows
+    );
+    const newOwner = randomAddress();
+    await exportTransferEthDomain(batch, ethers.provider, ens.address, "safe", newOwner);
+    const safeNonce = await readSafeNonce(ethers.provider, safe.address);
+    await executeSafeTransaction(safe, batch.toSafeTransaction(safeNonce, multiSend));
+
+    expect(await ethers.provider.getCode(claims)).to.not.equal("0x", "Claims not deployed");
+    const vesting = VestingToken__factory.connect(exported.vesting, owner);
+    expect(await vesting.beneficiary()).to.equal(beneficiary.address);
+    expectBigNumberEq(await token.balanceOf(vesting.address), amount, "Invalid vested amount");
+    expect(await ens.owner(utils.namehash("safe.eth"))).to.equal(newOwner);
+    const ethRegistrar = BaseRegistrarImplementation__factory.connect(
+      await ens.owner(utils.namehash("eth")),
+      owner
+    );
+    expect(await ethRegistrar.ownerOf(labelHash("safe"))).to.equal(newOwner);
+    expectBigNumberEq(
+      await readSafeNonce(ethers.provider, safe.address),
+      safeNonce.add(1),
+      "Invalid Safe nonce"
+    );
+  });
+
+  it("Checks the Safe token balance before exporting the vestings", async function () {
+    const [deployer] = await ethers.getSigners();
+    const token = await deployRadicleToken(deployer, deployer.address);
+    const amount = utils.parseEther("2");
+    const rows = [{ line: 2, beneficiary: deployer.address, amount, vestingStartTime: 1000 }];
+    const batch = new SafeBatch(randomAddress(), 31337, 1);
+    await expectTxFail(
+      exportVestingBatch(batch, ethers.provider, token.address, deployer.address, 0, 100, rows),
+      "exportVestingBatch",
+      "Insufficient token balance, required 2000000000000000000, has 0"
+    );
+  });
+
+  it("Rejects Phase0 deployed under an address starting with 6 zero bits", function () {
+    const safe = randomAddress();
+    let nonce = 0;
+    while (
+      !BigNumber.from(utils.getContractAddress({ from: safe, nonce }))
+        .shr(154)
+        .isZero()
+    ) {
+      nonce++;
+    }
+    const batch = new SafeBatch(safe, 1, nonce);
+    const args = [randomAddress(), randomAddress(), 0, randomAddress(), randomAddress()] as const;
+    expect(() => exportPhase0(batch, ...args, "radicle")).to.throw(
+      "which starts with 6 zero bits and is rejected"
+    );
+    const addresses = exportPhase0(new SafeBatch(safe, 1, nonce + 1), ...args, "radicle");
+    expect(addresses.token).to.equal(
+      utils.getContractAddress({ from: addresses.phase0, nonce: 1 })
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { expectBigNumberEq, getSigningKey, submit } from "./support";
+import { deployAll } from "../src/deploy";
+import { registrationCommitment } from "../src/registrar";
+import {
+  recoverCommitBySigSigner,
+  recoverPermitSigner,
+  signCommitBySig,
+  signCommitBySigWithPermit,
+  CommitBySigArgs,
+  PermitArgs,
+} from "../src/utils";
+
+describe("Signatures", function () {
+  it("Signs commitments with permits submitted by a relayer", async function () {
+    const [relayer, registrant] = await ethers.getSigners();
+    const { rad, registrar } = await deployAll(relayer);
+    const fee = await registrar.registrationFeeRad();
+    const submissionFee = 5;
+    await submit(rad.transfer(registrant.address, fee.add(submissionFee)));
+    const expiry = (await ethers.provider.getBlock("latest")).timestamp + 1000;
+    const commitment = registrationCommitment("cloudhead", registrant.address, "1");
+    const key = getSigningKey(registrant.address);
+
+    const args = await signCommitBySigWithPermit(
+      registrar,
+      rad,
+      key,
+      commitment,
+      expiry,
+      submissionFee
+    );
+    const [
+      cmt,
+      nonce,
+      exp,
+      subFee,
+      commitV,
+      commitR,
+      commitS,
+      owner,
+      value,
+      deadline,
+      v,
+      r,
+      s,
+    ] = args;
+    const commitArgs: CommitBySigArgs = [cmt, nonce, exp, subFee, commitV, commitR, commitS];
+    expect(await recoverCommitBySigSigner(registrar, commitArgs)).to.equal(registrant.address);
+    const permitArgs: PermitArgs = [owner, registrar.address, value, deadline, v, r, s];
+    expect(await recoverPermitSigner(rad, permitArgs)).to.equal(registrant.address);
+
+    const relayerBalance = await rad.balanceOf(relayer.address);
+    await submit(registrar.commitBySigWithPermit(...args));
+    expectBigNumberEq(await rad.balanceOf(registrant.address), 0, "Fees not paid");
+    expectBigNumberEq(
+      await rad.balanceOf(relayer.address),
+      relayerBalance.add(submissionFee),
+      "Submission fee not paid"
+    );
+  });
+
+  it("Detects commitments with invalid signatures", async function () {
+    const [relayer, registrant] = await ethers.getSigners();
+    const { registrar } = await deployAll(relayer);
+    const commitment = registrationCommitment("cloudhead", registrant.address, "1");
+    const args = await signCommitBySig(
+      registrar,
+      getSigningKey(registrant.address),
+      commitment,
+      1000,
+      5
+    );
+    expect(await recoverCommitBySigSigner(registrar, args)).to.equal(registrant.address);
+    const [, nonce, expiry, , v, r, s] = args;
+    const tampered: CommitBySigArgs = [commitment, nonce, expiry, expiry, v, r, s];
+    expect(await recoverCommitBySigSigner(registrar, tampered)).not.to.equal(registrant.address);
+  });
+});
@@ -0,0 +1,101 @@
+import { ethers, network } from "hardhat";
+import { expect } from "chai";
+import { providers, utils, Wallet } from "ethers";
+import { deployClaims } from "../src/deploy";
+import {
+  decryptKeystore,
+  keystoreAddress,
+  mnemonicAddresses,
+  mnemonicSigningKey,
+  ExternalSigner,
+} from "../src/signers";
+import { expectTxFail } from "./support";
+
+// Emulates the Clef API with a local wallet, a field of the signed transactions can be tampered with
+class FakeClef extends providers.JsonRpcProvider {
+  readonly wallet: Wallet;
+  tamper?: "data" | "value" | "chainId";
+
+  constructor(wallet: Wallet) {
+    super(undefined, { name: "test", chainId: 1 });
+    this.wallet = wallet;
+  }
+
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    if (method == "account_list") return [this.wallet.address.toLowerCase()];
+    expect(method).to.equal("account_signTransaction");
+    const request = params[0] as Record<string, string>;
+    expect(request.from).to.equal(this.wallet.address);
+    const raw = await this.wallet.signTransaction({
+      to: request.to,
+      data: this.tamper == "data" ? "0x" : request.data,
+      value: this.tamper == "value" ? 1 : request.value,
+      nonce: Number(request.nonce),
+      gasLimit: request.gas,
+      gasPrice: request.gasPrice,
+      chainId: this.tamper == "chainId" ? 1 : Number(request.chainId),
+    });
+    return { raw, tx: request };
+  }
+}
+
+function hardhatMnemonic(): { mnemonic: string; path: string } {
+  return network.config.accounts as { mnemonic: string; path: string };
+}
+
+describe("Signers", function () {
+  it("Decrypts the keystores", async function () {
+    const wallet = Wallet.createRandom();
+    const json = await wallet.encrypt("password", { scrypt: { N: 2 } });
+    expect(keystoreAddress(json)).to.equal(wallet.address);
+    const signingKey = await decryptKeystore(json, "password");
+    expect(utils.computeAddress(signingKey.publicKey)).to.equal(wallet.address);
+    await expectTxFail(decryptKeystore(json, "wrong"), "decrypt", "invalid password");
+  });
+
+  it("Derives the keys from the mnemonic", async function () {
+    const { mnemonic, path } = hardhatMnemonic();
+    const signers = await ethers.getSigners();
+    const addresses = mnemonicAddresses(mnemonic, path, 3);
+    expect(addresses).to.deep.equal(signers.slice(0, 3).map(({ address }) => address));
+    const signingKey = mnemonicSigningKey(mnemonic, `${path}/2`);
+    expect(utils.computeAddress(signingKey.publicKey)).to.equal(signers[2].address);
+  });
+
+  it("Deploys with an external signer", async function () {
+    const [funder] = await ethers.getSigners();
+    const wallet = Wallet.createRandom();
+    await (
+      await funder.sendTransaction({ to: wallet.address, value: utils.parseEther("1") })
+    ).wait();
+    const clef = new FakeClef(wallet);
+    const signer = await ExternalSigner.connect(clef, ethers.provider);
+    expect(signer.address).to.equal(wallet.address);
+    const claims = await deployClaims(signer);
+    expect(claims.deployTransaction.from).to.equal(wallet.address);
+
+    clef.tamper = "data";
+    await expectTxFail(
+      deployClaims(signer),
+      "deployClaims",
+      "The external signer has signed a different transaction, changing its data"
+    );
+    clef.tamper = "value";
+    await expectTxFail(
+      deployClaims(signer),
+      "deployClaims",
+      "The external signer has signed a different transaction, changing its value"
+    );
+    clef.tamper = "chainId";
+    await expectTxFail(
+      deployClaims(signer),
+      "deployClaims",
+      "The external signer has signed a different transaction, changing its chainId"
+    );
+    await expectTxFail(
+      ExternalSigner.connect(clef, ethers.provider, funder.address),
+      "connect",
+      `The external signer doesn't manage the account ${funder.address}`
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { checkStorageLayout, storageLayoutIssues, StorageLayout } from "../src/storage-layout";
+import { contractLayout } from "./support";
+
+const TYPES = {
+  t_address: { encoding: "inplace", label: "address", numberOfBytes: "20" },
+  t_uint256: { encoding: "inplace", label: "uint256", numberOfBytes: "32" },
+  t_uint128: { encoding: "inplace", label: "uint128", numberOfBytes: "16" },
+  t_bytes32: { encoding: "inplace", label: "bytes32", numberOfBytes: "32" },
+};
+
+const ADMIN_STORAGE = [
+  "admin",
+  "pendingAdmin",
+  "implementation",
+  "pendingImplementation",
+].map((label, slot) => ({ label, offset: 0, slot: slot.toString(), type: "t_address" }));
+
+function layout(...storage: [string, number, string][]): StorageLayout {
+  const variables = storage.map(([label, slot, type]) => ({
+    label,
+    offset: 0,
+    slot: slot.toString(),
+    type,
+  }));
+  return { storage: [...ADMIN_STORAGE, ...variables], types: TYPES };
+}
+
+describe("Storage layout", function () {
+  it("Accepts compatible upgrades", async function () {
+    const v1 = await contractLayout("contracts/DummyUpgradable.sol:DummyUpgradableV1");
+    const v2 = await contractLayout("contracts/DummyUpgradable.sol:DummyUpgradableV2");
+    checkStorageLayout(v1, v2);
+    const previous = layout(["total", 4, "t_uint256"]);
+    const next = layout(["total", 4, "t_uint256"], ["owner", 5, "t_address"]);
+    expect(storageLayoutIssues(previous, next)).to.deep.equal([]);
+  });
+
+  it("Rejects implementations colliding with the ProxyAdminStorage", async function () {
+    const proxy = await contractLayout("contracts/Proxy.sol:Proxy");
+    const registrar = await contractLayout("contracts/Registrar.sol:Registrar");
+    const issues = storageLayoutIssues(proxy, registrar);
+    expect(issues).to.include(
+      "'minCommitmentAge' in slot 0 collides with the ProxyAdminStorage 'admin'"
+    );
+    expect(issues).to.include("'pendingAdmin' in slot 1 has been removed");
+    expect(() => checkStorageLayout(proxy, registrar)).to.throw("Incompatible storage layouts:");
+  });
+
+  it("Rejects moved, retyped, shrunk and removed variables", function () {
+    const previous = layout(
+      ["total", 4, "t_uint256"],
+      ["owner", 5, "t_address"],
+      ["hash", 6, "t_bytes32"],
+      ["removed", 7, "t_uint256"]
+    );
+    const next = layout(
+      ["owner", 4, "t_address"],
+      ["total", 5, "t_uint128"],
+      ["hash", 6, "t_uint256"]
+    );
+    expect(storageLayoutIssues(previous, next)).to.deep.equal([
+      "'total' has been moved from slot 4 to slot 5",
+      "'total' has been shrunk from 32 to 16 bytes, from uint256 to uint128",
+      "'owner' has been moved from slot 5 to slot 4",
+      "'hash' has been retyped, from bytes32 to uint256",
+      "'removed' in slot 7 has been removed",
+    ]);
+  });
+
+  it("Compares the struct members", function () {
+    const struct = (memberType: string): StorageLayout => ({
+      storage: [{ label: "data", offset: 0, slot: "0", type: "t_struct(Data)1_storage" }],
+      types: {
+        ...TYPES,
+        "t_struct(Data)1_storage": {
+          encoding: "inplace",
+          label: "struct Data",
+          numberOfBytes: "32",
+          members: [{ label: "value", offset: 0, slot: "0", type: memberType }],
+        },
+      },
+    });
+    const issues = storageLayoutIssues(struct("t_uint256"), struct("t_bytes32"));
+    expect(issues).to.include(
+      "'data' has been retyped, from struct Data { uint256 value @ slot 0 } " +
+        "to struct Data { bytes32 value @ slot 0 }"
+    );
+  });
+});
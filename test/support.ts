@@ -1,6 +1,8 @@
 import { BigNumber, BigNumberish, ContractReceipt, ContractTransaction, utils } from "ethers";
 import { expect } from "chai";
-import { ethers, network } from "hardhat";
+import { artifacts, ethers, network } from "hardhat";
+import { revertReason } from "../src/errors";
+import { buildInfoStorageLayout, StorageLayout } from "../src/storage-layout";
 
 export { nextDeployedContractAddr } from "../src/deploy";
 
@@ -46,7 +48,7 @@ export async function expectTxFail<T>(
       if (!(error instanceof Error)) {
         throw error;
       }
-      const cause = error.message.replace("VM Exception while processing transaction: revert ", "");
+      const cause = revertReason(error) ?? error.message;
       expect(cause).to.equal(expectedCause, txName + " failed because of an unexpected reason");
     }
     return;
@@ -129,3 +131,10 @@ export function expectBigNumberEq(
   const fullMessage = `${message} (actual: ${actual.toString()}, expected: ${expected.toString()})`;
   expect(BigNumber.from(actual).eq(expected)).to.equal(true, fullMessage);
 }
+
+/// Get the storage layout of a contract named `path/to/Source.sol:Contract` from its build info.
+export async function contractLayout(fullyQualifiedName: string): Promise<StorageLayout> {
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  if (buildInfo === undefined) throw new Error(`No build info of ${fullyQualifiedName}`);
+  return buildInfoStorageLayout(buildInfo, fullyQualifiedName);
+}
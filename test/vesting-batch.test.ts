@@ -0,0 +1,94 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { expectBigNumberEq, expectTxFail } from "./support";
+import { deployRadicleToken } from "../src/deploy";
+import { DeploymentSteps } from "../src/deployment-steps";
+import {
+  deployVestingBatch,
+  parseVestingCsv,
+  totalVestingAmount,
+  vestingReportCsv,
+} from "../src/vesting-batch";
+
+const DAY = 24 * 60 * 60;
+
+describe("Vesting batch", function () {
+  it("Reports all the invalid rows of the CSV", function () {
+    const csv = [
+      "beneficiary,amount,startDate,cliffPeriodDays",
+      "0x0000000000000000000000000000000000000001,1.5,2021-01-01,",
+      "0x0000000000000000000000000000000000000000,-1,2021-01-01,10",
+      "",
+      "0x0000000000000000000000000000000000000002,1,3000-01-01,x",
+    ].join("\n");
+    expect(() => parseVestingCsv(csv, 18, Date.now() / 1000)).to.throw(
+      [
+        "Invalid vesting CSV:",
+        "line 3: invalid beneficiary '0x0000000000000000000000000000000000000000'",
+        "line 3: invalid amount '-1'",
+        "line 5: invalid start date '3000-01-01', it must be in the past",
+        "line 5: invalid cliff period 'x'",
+      ].join("\n  ")
+    );
+    expect(() => parseVestingCsv("beneficiary,amount,date", 18, 0)).to.throw(
+      "Invalid vesting CSV header:\n  Unknown column 'date'\n  Missing column 'startDate'"
+    );
+  });
+
+  it("Deploys the vestings checking the balance first and resumes", async function () {
+    const [deployer, beneficiary1, beneficiary2] = await ethers.getSigners();
+    const token = await deployRadicleToken(deployer, deployer.address);
+    const decimals = await token.decimals();
+    const csv = [
+      "beneficiary,amount,startDate,vestingPeriodDays",
+      `${beneficiary1.address},10,2021-01-01,`,
+      `${beneficiary2.address},2.5,2021-02-01,30`,
+    ].join("\n");
+    const rows = parseVestingCsv(csv, decimals, Date.now() / 1000);
+    expectBigNumberEq(totalVestingAmount(rows), ethers.utils.parseEther("12.5"), "Invalid total");
+    expect(rows[1].vestingPeriod).to.equal(30 * DAY);
+    expect(rows[0].vestingPeriod).to.be.undefined;
+
+    const poorSigner = ethers.Wallet.createRandom().connect(ethers.provider);
+    await expectTxFail(
+      deployVestingBatch(poorSigner, token.address, deployer.address, 0, DAY, rows),
+      "deployVestingBatch",
+      "Insufficient token balance, required 12500000000000000000, has 0"
+    );
+
+    const steps = new DeploymentSteps(deployer);
+    const [first] = await deployVestingBatch(
+      deployer,
+      token.address,
+      deployer.address,
+      0,
+      DAY,
+      rows.slice(0, 1),
+      steps
+    );
+    const report = await deployVestingBatch(
+      deployer,
+      token.address,
+      deployer.address,
+      0,
+      DAY,
+      rows,
+      steps
+    );
+    expect(report[0].vesting.address).to.equal(first.vesting.address);
+    expect(await report[1].vesting.beneficiary()).to.equal(beneficiary2.address);
+    expectBigNumberEq(
+      await token.balanceOf(report[1].vesting.address),
+      ethers.utils.parseEther("2.5"),
+      "Invalid vested amount"
+    );
+    expect(vestingReportCsv(report, decimals)).to.equal(
+      [
+        "line,beneficiary,amount,vesting",
+        `2,${beneficiary1.address},10.0,${report[0].vesting.address}`,
+        `3,${beneficiary2.address},2.5,${report[1].vesting.address}`,
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { callOnNextBlock, elapseTimeUntil, expectBigNumberEq, submit } from "./support";
+import { deployRadicleToken, deployVestingToken } from "../src/deploy";
+import { VestingSchedule } from "../src/vesting-schedule";
+
+const DAY = 24 * 60 * 60;
+
+describe("Vesting schedule", function () {
+  it("Previews the schedule before deployment", function () {
+    const vestingStartTime = Date.UTC(2021, 0, 15) / 1000;
+    const schedule = new VestingSchedule({
+      amount: 365,
+      vestingStartTime,
+      vestingPeriod: 365 * DAY,
+      cliffPeriod: 31 * DAY,
+    });
+    expect(schedule.cliffTime()).to.equal(Date.UTC(2021, 1, 15) / 1000);
+    expect(schedule.fullyVestedTime()).to.equal(Date.UTC(2022, 0, 15) / 1000);
+    expectBigNumberEq(schedule.vested(vestingStartTime + 30 * DAY), 0, "Vested before cliff");
+    expectBigNumberEq(schedule.vested(vestingStartTime + 31 * DAY), 31, "Invalid vested at cliff");
+
+    const daily = schedule.daily();
+    expect(daily).to.have.length(365);
+    expectBigNumberEq(daily[30].vested, 31, "Invalid vested on the cliff day");
+    expectBigNumberEq(daily[31].vested, 1, "Invalid vested after the cliff");
+
+    const monthly = schedule.monthly();
+    expect(monthly).to.have.length(12);
+    expect(monthly[1].start).to.equal(Date.UTC(2021, 1, 15) / 1000);
+    expectBigNumberEq(monthly[0].vested, 31, "Invalid vested in the first month");
+    expectBigNumberEq(monthly[1].vested, 28, "Invalid vested in the second month");
+    expectBigNumberEq(monthly[11].totalVested, 365, "Not everything vested");
+
+    const { beneficiary, owner } = schedule.termination(vestingStartTime + 100 * DAY);
+    expectBigNumberEq(beneficiary, 100, "Invalid terminated amount sent to beneficiary");
+    expectBigNumberEq(owner, 265, "Invalid terminated amount sent to owner");
+  });
+
+  it("Matches the deployed contract", async function () {
+    const [admin, beneficiary] = await ethers.getSigners();
+    const token = await deployRadicleToken(admin, admin.address);
+    const now = (await ethers.provider.getBlock("latest")).timestamp;
+    const vestingStartTime = now - 10 * DAY;
+    const vesting = await deployVestingToken(
+      admin,
+      token.address,
+      admin.address,
+      beneficiary.address,
+      1000,
+      vestingStartTime,
+      100 * DAY,
+      5 * DAY
+    );
+    await submit(vesting.connect(beneficiary).withdrawVested());
+    await elapseTimeUntil(vestingStartTime + 33 * DAY);
+
+    const schedule = await VestingSchedule.fromContract(vesting);
+    const timestamp = vestingStartTime + 33 * DAY + 1;
+    const withdrawable = await callOnNextBlock(() => vesting.withdrawableBalance());
+    expectBigNumberEq(schedule.withdrawable(timestamp), withdrawable, "Invalid withdrawable");
+    const termination = schedule.termination(timestamp);
+    expectBigNumberEq(termination.owner, 1000 - 330, "Invalid amount to be sent to the owner");
+
+    await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+    await submit(vesting.terminateVesting());
+    expectBigNumberEq(
+      await token.balanceOf(beneficiary.address),
+      schedule.withdrawn.add(termination.beneficiary),
+      "Invalid amount sent to beneficiary"
+    );
+    expectBigNumberEq(
+      await token.balanceOf(vesting.address),
+      0,
+      "Vesting not emptied by termination"
+    );
+    const terminated = await VestingSchedule.fromContract(vesting);
+    expect(terminated.interrupted).to.equal(true);
+    expectBigNumberEq(terminated.withdrawable(timestamp), 0, "Withdrawable after termination");
+    expect(() => terminated.termination(timestamp)).to.throw("The contract has been interrupted");
+  });
+});